@@ -46,6 +46,7 @@ const typesMap = getTypeFiles()
 
 const adapterDocs = [
   { text: 'loadState()', link: '/adapter/loadState' },
+  { text: 'loadPublishedState()', link: '/adapter/loadPublishedState' },
   { text: 'mapState()', link: '/adapter/mapState' },
   { text: 'getDisabledFeatures()', link: '/adapter/getDisabledFeatures' },
   { text: 'getAllBundles()', link: '/adapter/getAllBundles' },
@@ -71,15 +72,27 @@ const adapterDocs = [
   { text: 'deleteBlocks()', link: '/adapter/deleteBlocks' },
   { text: 'duplicateBlocks()', link: '/adapter/duplicateBlocks' },
   { text: 'pasteExistingBlocks()', link: '/adapter/pasteExistingBlocks' },
+  { text: 'pasteClipboardBlocks()', link: '/adapter/pasteClipboardBlocks' },
   { text: 'getImportItems()', link: '/adapter/getImportItems' },
   { text: 'importFromExisting()', link: '/adapter/importFromExisting' },
   { text: 'revertAllChanges()', link: '/adapter/revertAllChanges' },
   { text: 'publish()', link: '/adapter/publish' },
+  { text: 'getPublishSchedule()', link: '/adapter/getPublishSchedule' },
+  { text: 'schedulePublish()', link: '/adapter/schedulePublish' },
+  { text: 'cancelPublishSchedule()', link: '/adapter/cancelPublishSchedule' },
   { text: 'setHistoryIndex()', link: '/adapter/setHistoryIndex' },
   { text: 'takeOwnership()', link: '/adapter/takeOwnership' },
   { text: 'loadComments()', link: '/adapter/loadComments' },
   { text: 'addComment()', link: '/adapter/addComment' },
   { text: 'resolveComment()', link: '/adapter/resolveComment' },
+  { text: 'reopenComment()', link: '/adapter/reopenComment' },
+  { text: 'addCommentReply()', link: '/adapter/addCommentReply' },
+  { text: 'updateComment()', link: '/adapter/updateComment' },
+  { text: 'deleteComment()', link: '/adapter/deleteComment' },
+  {
+    text: 'getCommentMentionUsers()',
+    link: '/adapter/getCommentMentionUsers',
+  },
   { text: 'makeBlockReusable()', link: '/adapter/makeBlockReusable' },
   { text: 'detachReusableBlock()', link: '/adapter/detachReusableBlock' },
   { text: 'getLibraryItems()', link: '/adapter/getLibraryItems' },
@@ -103,6 +116,29 @@ const adapterDocs = [
   { text: 'getGridMarkup()', link: '/adapter/getGridMarkup' },
   { text: 'mediaLibraryAddBlock()', link: '/adapter/mediaLibraryAddBlock' },
   { text: 'mediaLibraryGetResults()', link: '/adapter/mediaLibraryGetResults' },
+  { text: 'mediaLibraryUpload()', link: '/adapter/mediaLibraryUpload' },
+  { text: 'loadMediaCrop()', link: '/adapter/loadMediaCrop' },
+  { text: 'updateMediaCrop()', link: '/adapter/updateMediaCrop' },
+  { text: 'loadPageMedia()', link: '/adapter/loadPageMedia' },
+  { text: 'updateMediaMetadata()', link: '/adapter/updateMediaMetadata' },
+  {
+    text: 'loadTranslationSources()',
+    link: '/adapter/loadTranslationSources',
+  },
+  { text: 'translateTexts()', link: '/adapter/translateTexts' },
+  { text: 'loadTranslations()', link: '/adapter/loadTranslations' },
+  {
+    text: 'loadBlockTranslationMetadata()',
+    link: '/adapter/loadBlockTranslationMetadata',
+  },
+  {
+    text: 'updateMultipleFieldValues()',
+    link: '/adapter/updateMultipleFieldValues',
+  },
+  {
+    text: 'collaborationSubscribe()',
+    link: '/adapter/collaborationSubscribe',
+  },
 ].sort((a, b) => a.text.localeCompare(b.text))
 
 function linkPlugin(md) {
@@ -6,23 +6,32 @@ import type {
   MutationResponseLike,
 } from '#blokkli/adapter'
 import { falsy } from '#blokkli/helpers'
+import { createBroadcastCollaboration } from '#blokkli/helpers/collaboration'
 import type {
   AssistantResultMarkup,
   CommentItem,
+  CommentReply,
   DroppableFieldConfig,
   EditableFieldConfig,
   FieldConfig,
   LibraryItem,
+  MediaMetadataItem,
+  TranslationSourceField,
 } from '#blokkli/types'
 import { allTypes } from './mock/allTypes'
 import { conversions } from './mock/conversions'
 import { entityStorageManager } from './mock/entityStorage'
+import { generateUUID } from './mock/uuid'
 import { state, editState, mapBlockItem } from './mock/state'
 import { getBlockBundles } from './mock/state/Block'
 import type { MutatedState } from './mock/state/EditState'
 import { ContentPage, type Content } from './mock/state/Entity/Content'
 import { FieldBlocks } from './mock/state/Field/Blocks'
-import { MediaImage, type MediaVideo } from './mock/state/Media/Media'
+import {
+  MediaImage,
+  type Media,
+  type MediaVideo,
+} from './mock/state/Media/Media'
 import { transforms } from './mock/transforms'
 import type { MediaLibraryItem } from '#blokkli/components/Features/MediaLibrary/types'
 import type { MutationArgsMap } from './mock/plugins/mutations'
@@ -30,6 +39,7 @@ import { FieldText } from './mock/state/Field/Text'
 import { FieldTextarea } from './mock/state/Field/Textarea'
 import type { Block } from './mock/state/Block/Block'
 import { FieldReference } from './mock/state/Field/Reference'
+import type { Comment } from './mock/state/Comment'
 
 export default defineBlokkliEditAdapter((ctx) => {
   const router = useRouter()
@@ -57,27 +67,53 @@ export default defineBlokkliEditAdapter((ctx) => {
     return mockResponse(mutatedState)
   }
 
+  const mapComment = (item: Comment): CommentReply => {
+    return {
+      uuid: item.uuid,
+      body: item.getBody(),
+      created: (item.getCreated() / 1000).toString(),
+      changed: item.getChanged()
+        ? (item.getChanged() / 1000).toString()
+        : undefined,
+      user: {
+        id: item.getUser().uuid,
+        label: item.getUser().getName(),
+      },
+      isOwnComment: item.getUser().uuid === '1',
+      mentions: item.getMentions().map((user) => ({
+        id: user.uuid,
+        label: user.getName(),
+      })),
+    }
+  }
+
   const loadComments = (): Promise<CommentItem[]> => {
-    const comments: CommentItem[] = entityStorageManager
-      .getCommentsForPage(ctx.value.entityUuid)
+    const all = entityStorageManager.getCommentsForPage(ctx.value.entityUuid)
+    const comments: CommentItem[] = all
+      .filter((item) => !item.getParentCommentUuid())
       .map((item) => {
         return {
-          uuid: item.uuid,
+          ...mapComment(item),
           blockUuids: item.getBlockUuids(),
           resolved: item.isResolved(),
-          body: item.getBody(),
-          created: (item.getCreated() / 1000).toString(),
-          user: {
-            label: item.getUser().getName(),
-          },
+          replies: all
+            .filter((reply) => reply.getParentCommentUuid() === item.uuid)
+            .sort((a, b) => a.getCreated() - b.getCreated())
+            .map(mapComment),
         }
       })
     return Promise.resolve(comments)
   }
 
+  const updateComment = (uuid: string, values: Record<string, any>) => {
+    entityStorageManager.getStorage('comment').load(uuid)?.setValues(values)
+    return loadComments()
+  }
+
   const mediaLibraryGetResults: GetMediaLibraryFunction<{
     bundle: 'select'
     text: 'text'
+    sort: 'sort'
   }> = (e) => {
     const bundle = e.filters.bundle
     const items: MediaLibraryItem[] = entityStorageManager
@@ -102,6 +138,14 @@ export default defineBlokkliEditAdapter((ctx) => {
 
         return true
       })
+
+    if (e.filters.sort) {
+      const direction = e.filters.sort.direction === 'desc' ? -1 : 1
+      const key = e.filters.sort.key === 'context' ? 'context' : 'label'
+      items.sort((a, b) => a[key].localeCompare(b[key]) * direction)
+    }
+
+    const perPage = 16
     return Promise.resolve({
       filters: {
         text: {
@@ -119,10 +163,19 @@ export default defineBlokkliEditAdapter((ctx) => {
             video: 'Video',
           },
         },
+        sort: {
+          type: 'sort',
+          label: 'Sort',
+          default: 'label',
+          options: {
+            label: 'Name',
+            context: 'Context',
+          },
+        },
       },
-      items,
-      total: 253,
-      perPage: 16,
+      items: items.slice(e.page * perPage, (e.page + 1) * perPage),
+      total: items.length,
+      perPage,
     })
   }
 
@@ -138,6 +191,11 @@ export default defineBlokkliEditAdapter((ctx) => {
       const mutatedState = editState.getMutatedState(page)
       return Promise.resolve(mutatedState)
     },
+    loadPublishedState() {
+      // The published state is the state without any mutations applied.
+      const mutatedState = editState.getMutatedState(getEntity(), false, -1)
+      return Promise.resolve(adapter.mapState(mutatedState))
+    },
     getDisabledFeatures() {
       return Promise.resolve([])
     },
@@ -220,13 +278,23 @@ export default defineBlokkliEditAdapter((ctx) => {
     loadComments() {
       return loadComments()
     },
-    resolveComment(uuid) {
-      console.log('Resolve comment')
+    resolveComment: (uuid) => updateComment(uuid, { isResolved: true }),
+    reopenComment: (uuid) => updateComment(uuid, { isResolved: false }),
+    updateComment: (uuid, body, mentions) =>
+      updateComment(uuid, { body, mentions, changed: Date.now() }),
+    deleteComment(uuid) {
+      const storage = entityStorageManager.getStorage('comment')
+      storage
+        .loadAll()
+        .filter((v) => v.getParentCommentUuid() === uuid)
+        .forEach((v) => storage.delete(v.uuid))
+      storage.delete(uuid)
       return loadComments()
     },
-    addComment(blockUuids, body) {
+    addComment(blockUuids, body, mentions) {
       entityStorageManager.addComment({
         body,
+        mentions,
         created: Date.now(),
         isResolved: false,
         parentEntityType: ctx.value.entityType,
@@ -236,6 +304,34 @@ export default defineBlokkliEditAdapter((ctx) => {
       })
       return loadComments()
     },
+    addCommentReply(uuid, body, mentions) {
+      entityStorageManager.addComment({
+        body,
+        mentions,
+        created: Date.now(),
+        parentEntityType: ctx.value.entityType,
+        parentEntityUuid: ctx.value.entityUuid,
+        parentComment: uuid,
+        user: '1',
+      })
+      return loadComments()
+    },
+    getCommentMentionUsers(text) {
+      return Promise.resolve(
+        entityStorageManager
+          .getStorage('user')
+          .loadAll()
+          .filter((user) =>
+            user.getName().toLowerCase().includes(text.toLowerCase()),
+          )
+          .map((user) => {
+            return {
+              id: user.uuid,
+              label: user.getName(),
+            }
+          }),
+      )
+    },
     addNewBlock: (e) =>
       addMutation('add', {
         bundle: e.bundle,
@@ -282,6 +378,15 @@ export default defineBlokkliEditAdapter((ctx) => {
         preceedingUuid: e.preceedingUuid,
       }),
 
+    pasteClipboardBlocks: (e) =>
+      addMutation('paste_clipboard_blocks', {
+        blocks: e.payload.blocks,
+        hostEntityType: e.host.type,
+        hostEntityUuid: e.host.uuid,
+        hostField: e.host.fieldName,
+        preceedingUuid: e.preceedingUuid,
+      }),
+
     updateFieldValue: (e) =>
       addMutation('update_field_value', {
         uuid: e.uuid,
@@ -289,6 +394,53 @@ export default defineBlokkliEditAdapter((ctx) => {
         fieldValue: e.fieldValue,
       }),
 
+    updateMultipleFieldValues: (e) =>
+      addMutation('update_multiple_field_values', {
+        fields: e.fields,
+      }),
+
+    // The stored blocks contain the values in the source language. Fields
+    // whose mutated value is different are considered translated.
+    loadTranslationSources: (e) => {
+      const { context } = editState.getMutatedState(getEntity())
+      return Promise.resolve(
+        e.fields
+          .map<TranslationSourceField | null>((field) => {
+            const source = entityStorageManager.storages.block.load(field.uuid)
+            const sourceField = source?.get(field.fieldName)
+            if (!sourceField) {
+              return null
+            }
+            const value = sourceField.toString()
+            const current = context
+              .getProxy(field.uuid)
+              ?.block.get(field.fieldName)
+              ?.toString()
+            return {
+              uuid: field.uuid,
+              fieldName: field.fieldName,
+              value,
+              status: current && current !== value ? 'translated' : 'missing',
+            }
+          })
+          .filter(falsy),
+      )
+    },
+
+    // A mock machine translation provider that works offline.
+    translateTexts: (e) =>
+      Promise.resolve(
+        e.texts.map((text) => {
+          const prefix = `[${e.targetLanguage.toUpperCase()}] `
+          if (e.format === 'markup') {
+            return text.replace(/>([^<]+)</g, (match, content: string) =>
+              content.trim() ? `>${prefix}${content}<` : match,
+            )
+          }
+          return prefix + text
+        }),
+      ),
+
     updateEntityFieldValue: (e) =>
       addMutation('update_entity_field_value', {
         fieldName: e.fieldName,
@@ -401,8 +553,10 @@ export default defineBlokkliEditAdapter((ctx) => {
         (e.videoService === 'youtube' || e.videoService === 'vimeo')
       ) {
         return 'video'
-      } else if (e.type === 'plaintext') {
+      } else if (e.type === 'plaintext' || e.type === 'list') {
         return 'text'
+      } else if (e.type === 'heading') {
+        return 'title'
       }
     },
 
@@ -483,6 +637,17 @@ export default defineBlokkliEditAdapter((ctx) => {
           hostField: e.host.fieldName,
           preceedingUuid: e.afterUuid,
         })
+      } else if (e.item.type === 'heading') {
+        return addMutation('add', {
+          bundle: 'title',
+          values: {
+            title: e.item.data,
+          },
+          hostEntityType: e.host.type,
+          hostEntityUuid: e.host.uuid,
+          hostField: e.host.fieldName,
+          preceedingUuid: e.afterUuid,
+        })
       } else if (e.item.type === 'video') {
         return addMutation('add_video_from_url', {
           url: 'https://www.youtube.com/watch?v=' + e.item.videoId,
@@ -600,6 +765,37 @@ export default defineBlokkliEditAdapter((ctx) => {
       }
     },
 
+    mediaLibraryUpload(e) {
+      // Store the file as a data URL, reporting the progress while reading.
+      return new Promise<MediaLibraryItem>((resolve, reject) => {
+        const reader = new FileReader()
+        reader.onprogress = (event) => {
+          if (event.lengthComputable) {
+            e.onProgress(event.loaded / event.total)
+          }
+        }
+        reader.onerror = () => reject(reader.error)
+        reader.onload = () => {
+          const uuid = generateUUID()
+          entityStorageManager.createImage(
+            uuid,
+            reader.result as string,
+            e.file.name,
+            e.file.name,
+          )
+          resolve({
+            mediaId: uuid,
+            label: e.file.name,
+            context: e.file.name,
+            thumbnail: reader.result as string,
+            targetBundles: ['image'],
+            mediaBundle: 'image',
+          })
+        }
+        reader.readAsDataURL(e.file)
+      })
+    },
+
     mediaLibraryReplaceMedia(e) {
       return addMutation('replace_media', {
         blockUuid: e.host.uuid,
@@ -615,6 +811,56 @@ export default defineBlokkliEditAdapter((ctx) => {
       })
     },
 
+    loadPageMedia(e) {
+      const { context } = editState.getMutatedState(getEntity())
+      const items: Record<string, MediaMetadataItem> = {}
+      context.proxies
+        .filter(
+          (proxy) => !proxy.isDeleted && e.uuids.includes(proxy.block.uuid),
+        )
+        .forEach((proxy) => {
+          Object.values(proxy.block.fields)
+            .filter(
+              (field): field is FieldReference<Media> =>
+                field instanceof FieldReference &&
+                field.targetEntityType === 'media',
+            )
+            .flatMap((field) => field.getReferencedEntities())
+            .forEach((media) => {
+              if (!items[media.uuid]) {
+                const isImage = media instanceof MediaImage
+                items[media.uuid] = {
+                  mediaId: media.uuid,
+                  label: isImage ? media.filename() : media.title(),
+                  thumbnail: media.thumbnail(),
+                  requiresAlt: isImage,
+                  alt: isImage ? media.alt() : '',
+                  caption: media.caption(),
+                  credit: media.credit(),
+                  uuids: [],
+                }
+              }
+              items[media.uuid].uuids.push(proxy.block.uuid)
+            })
+        })
+      return Promise.resolve(Object.values(items))
+    },
+
+    updateMediaMetadata(e) {
+      e.items.forEach((item) => {
+        const media = entityStorageManager.storages.media.load(item.mediaId)
+        if (!media) {
+          return
+        }
+        if (media instanceof MediaImage) {
+          media.get<FieldText>('alt').setText(item.alt)
+        }
+        media.get<FieldText>('caption').setText(item.caption)
+        media.get<FieldText>('credit').setText(item.credit)
+      })
+      return mockResponse(editState.getMutatedState(getEntity()))
+    },
+
     fragmentsAddBlock(e) {
       return addMutation('add', {
         bundle: 'blokkli_fragment',
@@ -687,6 +933,16 @@ export default defineBlokkliEditAdapter((ctx) => {
       ])
     },
 
+    // Show other tabs of the same browser as collaborators.
+    collaborationSubscribe: createBroadcastCollaboration({
+      channel:
+        'blokkli_playground_' + ctx.value.entityUuid + '_' + ctx.value.language,
+      user: {
+        id: Math.round(Math.random() * 10000000000).toString(),
+        label: 'Editor ' + Math.round(Math.random() * 100),
+      },
+    }),
+
     // @TODO: Implement in playground.
     // getLibraryItemEditUrl(uuid) {
     //   return 'http://localhost:3000/de?blokkliEditing=1'
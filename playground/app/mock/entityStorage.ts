@@ -126,7 +126,7 @@ export class EntityStorageManager {
       user: '1',
     })
 
-    this.addComment({
+    const comment = this.addComment({
       body: 'We should probably link to the code in the repo for the adapter.',
       isResolved: false,
       parentEntityType: 'content',
@@ -136,6 +136,15 @@ export class EntityStorageManager {
       user: '1',
     })
 
+    this.addComment({
+      body: 'Good idea, I will add a link.',
+      parentEntityType: 'content',
+      created: new Date(2023, 11, 4, 12, 15).getTime(),
+      parentEntityUuid: '1',
+      parentComment: comment.uuid,
+      user: '2',
+    })
+
     const page = new ContentPage('1')
     page.title().setText('Interactive $page building$ experience for Nuxt.')
     page
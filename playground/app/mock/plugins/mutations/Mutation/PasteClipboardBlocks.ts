@@ -0,0 +1,71 @@
+import type { ClipboardBlock } from '#blokkli/types'
+import { entityStorageManager } from '~/app/mock/entityStorage'
+import { BlockProxy, type MutationContext } from '~/app/mock/state/EditState'
+import { Mutation } from '../Mutation'
+
+export type MutationPasteClipboardBlocksArgs = {
+  blocks: ClipboardBlock[]
+  hostEntityType: string
+  hostEntityUuid: string
+  hostField: string
+  preceedingUuid?: string
+}
+
+export class MutationPasteClipboardBlocks extends Mutation {
+  constructor(configuration?: Record<string, any>) {
+    super('paste_clipboard_blocks', configuration)
+  }
+
+  override execute(
+    context: MutationContext,
+    args: MutationPasteClipboardBlocksArgs,
+  ) {
+    let preceedingUuid = args.preceedingUuid
+    args.blocks.forEach((item) => {
+      const proxy = this.createProxy(
+        context,
+        item,
+        args.hostEntityType,
+        args.hostEntityUuid,
+        args.hostField,
+      )
+      context.addProxy(proxy, preceedingUuid)
+      preceedingUuid = proxy.block.uuid
+    })
+  }
+
+  createProxy(
+    context: MutationContext,
+    item: ClipboardBlock,
+    hostEntityType: string,
+    hostEntityUuid: string,
+    hostField: string,
+  ): BlockProxy {
+    const uuid = this.getUuidForNewEntity(item.uuid)
+    const block = entityStorageManager.createBlock(item.bundle, uuid)
+
+    // The props are the rendered values, so only the ones matching a field of
+    // the bundle are used.
+    const values = Object.fromEntries(
+      Object.entries(item.props).filter(
+        ([fieldName]) =>
+          block.fields[fieldName] &&
+          block.fields[fieldName].type !== 'blocks' &&
+          fieldName !== 'options',
+      ),
+    )
+    block.setValues(values)
+
+    Object.entries(item.fields).forEach(([fieldName, children]) => {
+      children.forEach((child) => {
+        context.appendProxy(
+          this.createProxy(context, child, block.entityType, uuid, fieldName),
+        )
+      })
+    })
+
+    return new BlockProxy(block, hostEntityType, hostEntityUuid, hostField, {
+      ...item.options,
+    })
+  }
+}
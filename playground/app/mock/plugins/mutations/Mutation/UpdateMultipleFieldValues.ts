@@ -0,0 +1,25 @@
+import { type MutationContext } from '~/app/mock/state/EditState'
+import { Mutation } from '../Mutation'
+import type { MutationUpdateFieldValueArgs } from './UpdateFieldValue'
+
+export type MutationUpdateMultipleFieldValuesArgs = {
+  fields: MutationUpdateFieldValueArgs[]
+}
+
+export class MutationUpdateMultipleFieldValues extends Mutation {
+  constructor(configuration?: Record<string, any>) {
+    super('update_multiple_field_values', configuration)
+  }
+
+  override execute(
+    context: MutationContext,
+    args: MutationUpdateMultipleFieldValuesArgs,
+  ) {
+    for (const item of args.fields) {
+      const field = context.getProxy(item.uuid)?.block.get(item.fieldName)
+      if (field) {
+        field.setList([JSON.parse(JSON.stringify(item.fieldValue))])
+      }
+    }
+  }
+}
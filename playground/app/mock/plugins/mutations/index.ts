@@ -31,6 +31,10 @@ import {
   type MutationMakeReusableArgs,
 } from './Mutation/MakeReusable'
 import { MutationMove, type MutationMoveArgs } from './Mutation/Move'
+import {
+  MutationPasteClipboardBlocks,
+  type MutationPasteClipboardBlocksArgs,
+} from './Mutation/PasteClipboardBlocks'
 import {
   MutationReplaceEntityMedia,
   type MutationReplaceEntityMediaArgs,
@@ -51,6 +55,10 @@ import {
   MutationUpdateFieldValue,
   type MutationUpdateFieldValueArgs,
 } from './Mutation/UpdateFieldValue'
+import {
+  MutationUpdateMultipleFieldValues,
+  type MutationUpdateMultipleFieldValuesArgs,
+} from './Mutation/UpdateMultipleFieldValues'
 import {
   MutationUpdateOptions,
   type MutationUpdateOptionsArgs,
@@ -67,6 +75,7 @@ export type MutationArgsMap = {
   make_reusable: MutationMakeReusableArgs
   add_reusable_item: MutationAddReusableItemArgs
   update_field_value: MutationUpdateFieldValueArgs
+  update_multiple_field_values: MutationUpdateMultipleFieldValuesArgs
   update_entity_field_value: MutationUpdateEntityFieldValueArgs
   transform: MutationTransformArgs
   detach_reusable: MutationDetachReusableArgs
@@ -74,6 +83,7 @@ export type MutationArgsMap = {
   replace_media: MutationReplaceMediaArgs
   replace_entity_media: MutationReplaceEntityMediaArgs
   add_video_from_url: MutationAddVideoFromUrlArgs
+  paste_clipboard_blocks: MutationPasteClipboardBlocksArgs
 }
 
 export const createMutation = <T extends keyof MutationArgsMap>(
@@ -101,6 +111,8 @@ export const createMutation = <T extends keyof MutationArgsMap>(
       return new MutationAddReusableItem(configuration)
     case 'update_field_value':
       return new MutationUpdateFieldValue(configuration)
+    case 'update_multiple_field_values':
+      return new MutationUpdateMultipleFieldValues(configuration)
     case 'update_entity_field_value':
       return new MutationUpdateEntityFieldValue(configuration)
     case 'transform':
@@ -115,6 +127,8 @@ export const createMutation = <T extends keyof MutationArgsMap>(
       return new MutationReplaceEntityMedia(configuration)
     case 'add_video_from_url':
       return new MutationAddVideoFromUrl(configuration)
+    case 'paste_clipboard_blocks':
+      return new MutationPasteClipboardBlocks(configuration)
   }
 
   throw new Error('Missing mutation plugin with ID: ' + id)
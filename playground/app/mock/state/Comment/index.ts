@@ -21,11 +21,14 @@ export class Comment extends Entity {
     return [
       ...super.getFieldDefintions(),
       new FieldTimestamp('created', 'Created'),
+      new FieldTimestamp('changed', 'Changed'),
       new FieldTextarea('body', 'Body'),
       new FieldBoolean('isResolved', 'Is Resolved'),
       new FieldText('parentEntityType', 'Parent Entity Type'),
       new FieldText('parentEntityUuid', 'Parent Entity UUID'),
+      new FieldText('parentComment', 'Parent Comment'),
       new FieldReference('user', 'User', 1, false, 'user', []),
+      new FieldReference('mentions', 'Mentions', -1, false, 'user', []),
       new FieldReference(
         'referencedBlocks',
         'Referenced Blocks',
@@ -53,7 +56,19 @@ export class Comment extends Entity {
     return this.get<FieldTimestamp>('created').getTimestamp()
   }
 
+  getChanged(): number {
+    return this.get<FieldTimestamp>('changed').getTimestamp()
+  }
+
+  getParentCommentUuid(): string | undefined {
+    return this.get<FieldText>('parentComment').list[0]
+  }
+
   getUser(): User {
     return this.get<FieldReference<User>>('user').getReferencedEntities()[0]
   }
+
+  getMentions(): User[] {
+    return this.get<FieldReference<User>>('mentions').getReferencedEntities()
+  }
 }
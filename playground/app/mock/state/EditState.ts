@@ -257,12 +257,15 @@ export class EditState {
     })
   }
 
-  getMutatedState(entity: Entity, save?: boolean): MutatedState {
+  getMutatedState(
+    entity: Entity,
+    save?: boolean,
+    currentIndex = this.currentIndex,
+  ): MutatedState {
     const langcode = entity.langcode
     const context = new MutationContext(entity)
 
     const mutations = this.getMutations()
-    const currentIndex = this.currentIndex
     for (let i = 0; i <= currentIndex; i++) {
       const item = mutations[i]
       if (item) {
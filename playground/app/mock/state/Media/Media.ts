@@ -6,6 +6,22 @@ import { FieldUrl } from '../Field/Url'
 export abstract class Media extends Entity {
   static override entityType = 'media'
 
+  static override getFieldDefintions(): Field<any>[] {
+    return [
+      ...super.getFieldDefintions(),
+      new FieldText('caption', 'Caption'),
+      new FieldText('credit', 'Credit'),
+    ]
+  }
+
+  caption(): string {
+    return this.get<FieldText>('caption').getText()
+  }
+
+  credit(): string {
+    return this.get<FieldText>('credit').getText()
+  }
+
   thumbnail(): string | undefined {
     return
   }
@@ -67,6 +67,15 @@ export default defineNuxtConfig({
       blockFavorites: ['title', 'text', 'card', 'button'],
     },
 
+    markdown: {
+      bundles: [
+        { element: 'heading', bundle: 'title', prop: 'title' },
+        { element: 'paragraph', bundle: 'text', prop: 'text' },
+        { element: 'list', bundle: 'text', prop: 'text' },
+        { element: 'blockquote', bundle: 'text', prop: 'text' },
+      ],
+    },
+
     featureImports: ['./blokkli/DemoFeature.vue'],
   },
 
@@ -8,7 +8,14 @@ import { format } from './../helpers'
 import { sortObjectKeys } from './../../src/helpers'
 import { po as PO, type GetTextTranslation } from 'gettext-parser'
 
-const LANGUAGES = ['de', 'fr', 'it', 'gsw_CH']
+const I18N_DIR = path.resolve(__dirname, './../../i18n')
+
+// Every PO file in the i18n folder is a language. To add a new language,
+// create an empty PO file named after the langcode and run the script.
+const LANGUAGES = glob
+  .sync(I18N_DIR + '/*.po')
+  .map((v) => path.basename(v, '.po'))
+  .sort()
 
 function extractFunctionCalls(name: string, sourceCode: string): string[] {
   let inTCall = false
@@ -283,15 +290,19 @@ async function updateTranslationFile(
   language: string,
   sourceTexts: Record<string, string>,
 ) {
-  const poFilePath = path.resolve(__dirname, `./../../i18n/${language}.po`)
+  const poFilePath = path.resolve(I18N_DIR, `${language}.po`)
   const poData = await fs.promises.readFile(poFilePath, {
     encoding: 'utf-8',
   })
-  const poFile = PO.parse(poData, 'utf-8')
 
   const existingTexts: Record<string, TranslationEntry> = {}
 
-  Object.entries(poFile.translations).forEach(([key, entry]) => {
+  // A newly added language has an empty PO file.
+  const translations = poData.trim()
+    ? PO.parse(poData, 'utf-8').translations
+    : {}
+
+  Object.entries(translations).forEach(([key, entry]) => {
     const translation = Object.entries(entry)[0][1]
     existingTexts[key] = {
       source: translation.msgid,
@@ -353,7 +364,7 @@ async function generatePO(
     },
   }).toString()
 
-  const filePath = path.resolve(__dirname, `./../../i18n/${language}.po`)
+  const filePath = path.resolve(I18N_DIR, `${language}.po`)
 
   await fs.promises.writeFile(filePath, result)
 }
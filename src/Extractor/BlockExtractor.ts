@@ -412,12 +412,21 @@ export const globalOptionsDefaults: Record<string, GlobalOptionsDefaults> = ${JS
 
         const options = Object.entries(definedOptions || {})
           .map(([key, option]) => {
-            if (option.type === 'text') {
+            if (
+              option.type === 'text' ||
+              option.type === 'textarea' ||
+              option.type === 'date' ||
+              option.type === 'datetime' ||
+              option.type === 'link' ||
+              option.type === 'media'
+            ) {
+              // Links are stored as a JSON encoded string.
               return `${key}: string | undefined`
             } else if (option.type === 'checkbox') {
               return `${key}: '1' | '0' | undefined`
             } else if (
               option.type === 'radios' ||
+              option.type === 'select' ||
               option.type === 'checkboxes'
             ) {
               const possibleValues = Object.keys(option.options)
@@ -18,7 +18,11 @@ import BlockExtractor from './Extractor/BlockExtractor'
 import FeatureExtractor, {
   type ExtractedFeatureDefinition,
 } from './Extractor/FeatureExtractor'
-import type { BlockDefinitionOptionsInput } from './runtime/types'
+import type {
+  BlockDefinitionOptionsInput,
+  BlokkliBreakpoint,
+  MarkdownBundleMapping,
+} from './runtime/types'
 import { DefinitionPlugin } from './vitePlugin'
 import defaultTranslations from './translations'
 import { getTheme, themes } from './themes'
@@ -137,6 +141,20 @@ export type ModuleOptions = {
    */
   translations?: Record<string, Record<string, string>>
 
+  /**
+   * The URL from which translations are loaded at runtime.
+   *
+   * The placeholder {language} is replaced with the langcode, for example
+   * "/blokkli-translations/{language}.json". The response must be a JSON
+   * object of translations keyed by text key. Loaded translations take
+   * precedence over the translations provided at build time.
+   *
+   * This allows adding languages to the editor without providing them at
+   * build time. If the adapter implements loadTranslations(), the URL is
+   * not used.
+   */
+  translationsUrl?: string
+
   /**
    * The default/fallback language for the editor.
    */
@@ -203,8 +221,38 @@ export type ModuleOptions = {
    * bundles.
    */
   storageDefaults?: ModuleOptionsStorageDefaults
+
+  /**
+   * The breakpoints available for responsive block options.
+   *
+   * Values are resolved "mobile first": The value of a breakpoint applies to
+   * all larger breakpoints that don't define their own value.
+   *
+   * Defaults to "Mobile" (0px), "Tablet" (768px) and "Desktop" (1024px).
+   */
+  breakpoints?: BlokkliBreakpoint[]
+
+  /**
+   * Configuration for the Markdown import and export.
+   */
+  markdown?: {
+    /**
+     * Maps Markdown elements to block bundles.
+     *
+     * Blocks whose bundle is not mapped are skipped when exporting, but
+     * their nested blocks are still exported. When importing, elements
+     * without a mapping are imported using the "paragraph" mapping.
+     */
+    bundles?: MarkdownBundleMapping[]
+  }
 }
 
+const defaultBreakpoints: BlokkliBreakpoint[] = [
+  { id: 'mobile', label: 'Mobile', minWidth: 0 },
+  { id: 'tablet', label: 'Tablet', minWidth: 768 },
+  { id: 'desktop', label: 'Desktop', minWidth: 1024 },
+]
+
 const buildThemeData = (themeOption?: ThemeName | Partial<Theme>) => {
   const hasCustomTheme = !!themeOption
   const mergeTheme = createDefu((obj, key, value) => {
@@ -621,6 +669,7 @@ ${featuresArray}
 
         return `import type { Theme } from '#blokkli/types/theme'
 import type { ModuleOptionsSettings } from '#blokkli/types/generatedModuleTypes'
+import type { MarkdownBundleMapping } from '#blokkli/types'
 
 export const hasCustomTheme = ${JSON.stringify(hasCustomTheme)}
 export const themes: Record<string, Theme> = ${JSON.stringify(themes, null, 2)}
@@ -641,6 +690,12 @@ export const defaultLanguage: string = ${JSON.stringify(
 export const forceDefaultLanguage: boolean = ${JSON.stringify(
           !!moduleOptions.forceDefaultLanguage,
         )}
+export const translationsUrl: string = ${JSON.stringify(
+          moduleOptions.translationsUrl || '',
+        )}
+export const markdownBundles: MarkdownBundleMapping[] = ${JSON.stringify(
+          moduleOptions.markdown?.bundles || [],
+        )}
 `
       },
       options: {
@@ -665,6 +720,26 @@ export const forceDefaultLanguage: boolean = ${JSON.stringify(
     nuxt.options.alias['#blokkli/default-global-options'] =
       templateDefaultGlobalOptions.dst
 
+    // The breakpoints for responsive options. Kept separate from the config
+    // template, because it's also needed when not editing.
+    const templateBreakpoints = addTemplate({
+      write: true,
+      filename: 'blokkli/breakpoints.ts',
+      getContents: () => {
+        const breakpoints = [
+          ...(moduleOptions.breakpoints || defaultBreakpoints),
+        ].sort((a, b) => a.minWidth - b.minWidth)
+        return `import type { BlokkliBreakpoint } from '#blokkli/types'
+
+export const breakpoints: BlokkliBreakpoint[] = ${JSON.stringify(breakpoints, null, 2)}
+`
+      },
+      options: {
+        blokkli: true,
+      },
+    })
+    nuxt.options.alias['#blokkli/breakpoints'] = templateBreakpoints.dst
+
     let optionsSchemaTemplate: ResolvedNuxtTemplate<{
       blokkli: true
     }> | null = null
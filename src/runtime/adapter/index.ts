@@ -1,6 +1,7 @@
 import type { ComputedRef } from 'vue'
 import type {
   CommentItem,
+  CommentMentionUser,
   ConversionItem,
   MappedState,
   ImportItem,
@@ -20,6 +21,7 @@ import type {
   TransformPlugin,
   EditBlockEvent,
   PasteExistingBlocksEvent,
+  PasteClipboardBlocksEvent,
   UpdateFieldValueEvent,
   AssistantResult,
   DraggableHostData,
@@ -28,12 +30,32 @@ import type {
   EditableFieldConfig,
   DraggableMediaLibraryItem,
   DroppableFieldConfig,
+  CollaborationPresence,
+  CollaborationPresenceUpdate,
+  PublishSchedule,
+  MediaCrop,
+  MediaCropRect,
+  MediaFocalPoint,
+  MediaMetadataItem,
+  MediaMetadataUpdate,
+  TranslationSourceField,
+  BlockTranslationMetadata,
 } from './../types'
 import type getVideoId from 'get-video-id'
+import type { MachineTranslationFormat } from './../helpers/machineTranslation'
 
-import type { GetMediaLibraryFunction } from './../components/Edit/Features/MediaLibrary/types'
-
-export type { GetMediaLibraryFunction }
+import type {
+  GetMediaLibraryFunction,
+  MediaLibraryItem,
+  MediaLibraryDateRangeValue,
+  MediaLibrarySortValue,
+} from './../components/Edit/Features/MediaLibrary/types'
+
+export type {
+  GetMediaLibraryFunction,
+  MediaLibraryDateRangeValue,
+  MediaLibrarySortValue,
+}
 
 export interface MutationResponseLike<T> {
   success: boolean
@@ -75,6 +97,100 @@ export type MediaLibraryReplaceMediaEvent = {
   mediaId: string
 }
 
+export type LoadMediaCropEvent = {
+  /**
+   * The host and name of the droppable field containing the media.
+   */
+  host: DraggableHostData
+}
+
+export type UpdateMediaCropEvent = {
+  /**
+   * The host and name of the droppable field containing the media.
+   */
+  host: DraggableHostData
+
+  /**
+   * The new focal point.
+   */
+  focalPoint: MediaFocalPoint
+
+  /**
+   * The crops, keyed by aspect ratio ID.
+   */
+  crops: Record<string, MediaCropRect>
+}
+
+export type LoadPageMediaEvent = {
+  /**
+   * The droppable fields on the page that accept media.
+   */
+  fields: DraggableHostData[]
+
+  /**
+   * The UUIDs of all blocks on the page, to find media referenced in block
+   * props.
+   */
+  uuids: string[]
+}
+
+export type UpdateMediaMetadataEvent = {
+  /**
+   * The changed media items.
+   */
+  items: MediaMetadataUpdate[]
+}
+
+export type LoadTranslationSourcesEvent = {
+  /**
+   * The langcode of the current translation.
+   */
+  langcode: string
+
+  /**
+   * The translatable editable fields rendered on the page.
+   */
+  fields: { uuid: string; fieldName: string }[]
+}
+
+export type TranslateTextsEvent = {
+  /**
+   * The langcode of the source texts.
+   */
+  sourceLanguage: string
+
+  /**
+   * The langcode to translate the texts to.
+   */
+  targetLanguage: string
+
+  /**
+   * Whether the texts contain markup or plain text.
+   */
+  format: MachineTranslationFormat
+
+  /**
+   * The texts to translate.
+   */
+  texts: string[]
+}
+
+export type UpdateMultipleFieldValuesEvent = {
+  fields: UpdateFieldValueEvent[]
+}
+
+export type MediaLibraryUploadEvent = {
+  /**
+   * The file to upload.
+   */
+  file: File
+
+  /**
+   * Report the progress of the upload, as a number between 0 and 1.
+   */
+  onProgress: (progress: number) => void
+}
+
 type AdapterAssistantAddBlockFromResult = {
   result: AssistantResult
   host: DraggableHostData
@@ -175,11 +291,38 @@ export type ClipboardMapBundleEventVideo = {
   videoId: string
 }
 
+export type ClipboardMapBundleEventHeading = {
+  type: 'heading'
+  level: number
+  text: string
+}
+
+export type ClipboardMapBundleEventList = {
+  type: 'list'
+  ordered: boolean
+  html: string
+}
+
+export type ClipboardMapBundleEventTable = {
+  type: 'table'
+  html: string
+}
+
+export type ClipboardMapBundleEventImageUrl = {
+  type: 'imageUrl'
+  url: string
+  alt: string
+}
+
 export type ClipboardMapBundleEvent =
   | ClipboardMapBundleEventVideo
   | ClipboardMapBundleEventImage
   | ClipboardMapBundleEventFile
   | ClipboardMapBundleEventPlaintext
+  | ClipboardMapBundleEventHeading
+  | ClipboardMapBundleEventList
+  | ClipboardMapBundleEventTable
+  | ClipboardMapBundleEventImageUrl
 
 export type BlokkliAdapterGetLibraryItemsData = {
   bundles: string[]
@@ -193,6 +336,38 @@ export type BlokkliAdapterGetLibraryItemsResult = {
   perPage: number
 }
 
+export type CollaborationSubscribeEvent = {
+  /**
+   * Apply a state that was changed by another user.
+   */
+  onState: (state: MappedState) => void
+
+  /**
+   * Update the presence of all other users editing the same entity.
+   */
+  onPresence: (presence: CollaborationPresence[]) => void
+}
+
+export type CollaborationConnection = {
+  /**
+   * Send the presence (selection and cursor) of the current user.
+   */
+  updatePresence: (presence: CollaborationPresenceUpdate) => void
+
+  /**
+   * Send the state after the current user performed a mutation.
+   *
+   * Only needed if the transport does not already receive state changes
+   * from the backend.
+   */
+  publishState?: (state: MappedState) => void
+
+  /**
+   * Close the connection.
+   */
+  unsubscribe: () => void
+}
+
 export interface BlokkliAdapter<T> {
   /**
    * Load the state for the given langcode.
@@ -204,6 +379,14 @@ export interface BlokkliAdapter<T> {
    */
   mapState(state: T): MappedState
 
+  /**
+   * Load the currently published state.
+   *
+   * Used by the "Compare" feature to display the differences between the
+   * published state and the current edit state.
+   */
+  loadPublishedState?: () => Promise<MappedState | undefined>
+
   /**
    * Get disabled features at runtime.
    *
@@ -274,6 +457,11 @@ export interface BlokkliAdapter<T> {
 
   /**
    * Determine the block bundle for the given clipboard item.
+   *
+   * When pasting rich HTML, it is split into headings, paragraphs, lists,
+   * tables and images. Paragraphs are mapped as "plaintext". Headings, lists
+   * and tables that can't be mapped fall back to "plaintext" with their
+   * markup. Images that can't be mapped are skipped.
    */
   clipboardMapBundle?: (e: ClipboardMapBundleEvent) => string | undefined
 
@@ -323,6 +511,16 @@ export interface BlokkliAdapter<T> {
     e: PasteExistingBlocksEvent,
   ) => Promise<MutationResponseLike<T>>
 
+  /**
+   * Recreate blocks copied to the clipboard, possibly from another page.
+   *
+   * The payload contains the bundle, options, props and nested blocks of
+   * every copied block.
+   */
+  pasteClipboardBlocks?: (
+    e: PasteClipboardBlocksEvent,
+  ) => Promise<MutationResponseLike<T>>
+
   /**
    * Get all existing entities for importing.
    */
@@ -347,6 +545,25 @@ export interface BlokkliAdapter<T> {
    */
   publish?: () => Promise<MutationResponseLike<T>>
 
+  /**
+   * Get the pending publish schedule of the entity.
+   */
+  getPublishSchedule?: () => Promise<PublishSchedule | null>
+
+  /**
+   * Schedule publishing the changes and/or unpublishing the entity.
+   *
+   * Should return the updated schedule.
+   */
+  schedulePublish?: (
+    schedule: PublishSchedule,
+  ) => Promise<PublishSchedule | null>
+
+  /**
+   * Cancel the pending publish schedule.
+   */
+  cancelPublishSchedule?: () => Promise<void>
+
   /**
    * Set a specific history index.
    */
@@ -365,6 +582,16 @@ export interface BlokkliAdapter<T> {
    */
   takeOwnership?: () => Promise<MutationResponseLike<T>>
 
+  /**
+   * Subscribe to changes of other users editing the same entity.
+   *
+   * The returned connection is used to send the presence of the current
+   * user. It is closed when the editor is unmounted.
+   */
+  collaborationSubscribe?: (
+    e: CollaborationSubscribeEvent,
+  ) => Promise<CollaborationConnection> | CollaborationConnection
+
   /**
    * Load all comments.
    */
@@ -372,14 +599,55 @@ export interface BlokkliAdapter<T> {
 
   /**
    * Add a comment to one or more items.
+   *
+   * The optional mentions contains the IDs of the users mentioned in the
+   * body.
    */
-  addComment?: (blockUuids: string[], body: string) => Promise<CommentItem[]>
+  addComment?: (
+    blockUuids: string[],
+    body: string,
+    mentions?: string[],
+  ) => Promise<CommentItem[]>
 
   /**
    * Resolve a comment.
    */
   resolveComment?: (uuid: string) => Promise<CommentItem[]>
 
+  /**
+   * Reopen a resolved comment.
+   */
+  reopenComment?: (uuid: string) => Promise<CommentItem[]>
+
+  /**
+   * Add a reply to a comment.
+   */
+  addCommentReply?: (
+    uuid: string,
+    body: string,
+    mentions?: string[],
+  ) => Promise<CommentItem[]>
+
+  /**
+   * Update the body of a comment or reply of the current user.
+   */
+  updateComment?: (
+    uuid: string,
+    body: string,
+    mentions?: string[],
+  ) => Promise<CommentItem[]>
+
+  /**
+   * Delete a comment or reply of the current user.
+   */
+  deleteComment?: (uuid: string) => Promise<CommentItem[]>
+
+  /**
+   * Get the users that can be mentioned in comments, filtered by the given
+   * text entered after the @.
+   */
+  getCommentMentionUsers?: (text: string) => Promise<CommentMentionUser[]>
+
   /**
    * Make an item reusable.
    */
@@ -465,6 +733,43 @@ export interface BlokkliAdapter<T> {
     e: UpdateEntityFieldValueEvent,
   ) => Promise<MutationResponseLike<T>> | undefined
 
+  /**
+   * Load the source language values and the translation status of editable
+   * block fields.
+   */
+  loadTranslationSources?: (
+    e: LoadTranslationSourcesEvent,
+  ) => Promise<TranslationSourceField[]>
+
+  /**
+   * Load the translations of the editor UI for the given language at runtime.
+   *
+   * Should return an object of translations keyed by text key. The loaded
+   * translations take precedence over the translations provided at build time.
+   */
+  loadTranslations?: (
+    langcode: string,
+  ) => Promise<Record<string, string> | null>
+
+  /**
+   * Load the translation status of all blocks of the current entity, for
+   * every language.
+   */
+  loadBlockTranslationMetadata?: () => Promise<BlockTranslationMetadata[]>
+
+  /**
+   * Machine translate the given texts. Must return the translated texts in the
+   * same order.
+   */
+  translateTexts?: (e: TranslateTextsEvent) => Promise<string[]>
+
+  /**
+   * Update the values of multiple block fields in a single mutation.
+   */
+  updateMultipleFieldValues?: (
+    e: UpdateMultipleFieldValuesEvent,
+  ) => Promise<MutationResponseLike<T>>
+
   /**
    * Build the iframe URL for an editable of type "frame".
    */
@@ -523,6 +828,40 @@ export interface BlokkliAdapter<T> {
     e: MediaLibraryReplaceMediaEvent,
   ) => Promise<MutationResponseLike<T>> | undefined
 
+  /**
+   * Upload a file to the media library.
+   *
+   * Should return the created media library item, which can then be dragged
+   * into the page.
+   */
+  mediaLibraryUpload?: (e: MediaLibraryUploadEvent) => Promise<MediaLibraryItem>
+
+  /**
+   * Load the focal point and crops of the media on a droppable field.
+   *
+   * Return null if the field doesn't contain a media that can be cropped.
+   */
+  loadMediaCrop?: (e: LoadMediaCropEvent) => Promise<MediaCrop | null>
+
+  /**
+   * Update the focal point and crops of the media on a droppable field.
+   */
+  updateMediaCrop?: (
+    e: UpdateMediaCropEvent,
+  ) => Promise<MutationResponseLike<T>> | undefined
+
+  /**
+   * Load all media rendered on the current page, including their metadata.
+   */
+  loadPageMedia?: (e: LoadPageMediaEvent) => Promise<MediaMetadataItem[]>
+
+  /**
+   * Update the alt text, caption and credit of one or more media.
+   */
+  updateMediaMetadata?: (
+    e: UpdateMediaMetadataEvent,
+  ) => Promise<MutationResponseLike<T>> | undefined
+
   /**
    * Add a fragment block.
    */
@@ -0,0 +1,11 @@
+export type CommentAction =
+  | {
+      type: 'resolve' | 'reopen' | 'delete'
+      uuid: string
+    }
+  | {
+      type: 'update' | 'reply'
+      uuid: string
+      body: string
+      mentions: string[]
+    }
@@ -24,11 +24,44 @@ export type MediaLibraryFilterSelect = {
   options: Record<string, string>
 }
 
+export type MediaLibraryFilterDateRange = {
+  label: string
+  type: 'dateRange'
+}
+
+export type MediaLibraryFilterSort = {
+  label: string
+  type: 'sort'
+  default: string
+  defaultDirection?: MediaLibrarySortDirection
+  options: Record<string, string>
+}
+
 export type MediaLibraryFilter =
   | MediaLibraryFilterCheckbox
   | MediaLibraryFilterCheckboxes
   | MediaLibraryFilterText
   | MediaLibraryFilterSelect
+  | MediaLibraryFilterDateRange
+  | MediaLibraryFilterSort
+
+export type MediaLibrarySortDirection = 'asc' | 'desc'
+
+/**
+ * The value of a date range filter. Dates are in the format YYYY-MM-DD.
+ */
+export type MediaLibraryDateRangeValue = {
+  from?: string
+  to?: string
+}
+
+/**
+ * The value of a sort filter.
+ */
+export type MediaLibrarySortValue = {
+  key: string
+  direction: MediaLibrarySortDirection
+}
 
 export type MediaLibraryItem = {
   mediaId: string
@@ -40,7 +73,13 @@ export type MediaLibraryItem = {
   mediaBundle?: string
 }
 
-export type FilterTypes = 'checkbox' | 'checkboxes' | 'text' | 'select'
+export type FilterTypes =
+  | 'checkbox'
+  | 'checkboxes'
+  | 'text'
+  | 'select'
+  | 'dateRange'
+  | 'sort'
 
 // Extend MediaLibraryGetResults to be generic
 export type MediaLibraryGetResults<F extends Record<string, FilterTypes>> = {
@@ -51,7 +90,11 @@ export type MediaLibraryGetResults<F extends Record<string, FilterTypes>> = {
         ? MediaLibraryFilterCheckboxes
         : F[K] extends 'text'
           ? MediaLibraryFilterText
-          : MediaLibraryFilterSelect
+          : F[K] extends 'dateRange'
+            ? MediaLibraryFilterDateRange
+            : F[K] extends 'sort'
+              ? MediaLibraryFilterSort
+              : MediaLibraryFilterSelect
   }
   items: MediaLibraryItem[]
   total: number
@@ -64,6 +107,8 @@ type FilterValueTypes = {
   checkboxes: string[]
   text: string
   select: string
+  dateRange: MediaLibraryDateRangeValue
+  sort: MediaLibrarySortValue
 }
 
 export type MediaLibraryGetResultsData<F extends Record<string, FilterTypes>> =
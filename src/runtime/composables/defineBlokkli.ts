@@ -21,6 +21,7 @@ import type {
   InjectedBlokkliItem,
   ItemEditContext,
 } from '#blokkli/types'
+import type { BlockOptionLinkValue } from '#blokkli/types/blokkOptions'
 import { globalOptionsDefaults } from '#blokkli/default-global-options'
 
 import type {
@@ -29,6 +30,12 @@ import type {
   ValidFieldListTypes,
 } from '#blokkli/generated-types'
 import { getRuntimeOptionValue } from '#blokkli/helpers/runtimeHelpers'
+import {
+  parseResponsiveOptionValue,
+  resolveResponsiveOptionValue,
+} from '#blokkli/helpers/breakpoints'
+import { breakpoints } from '#blokkli/breakpoints'
+import useCurrentBreakpoint from '#blokkli/helpers/composables/useCurrentBreakpoint'
 
 /**
  * Define a blokkli component.
@@ -78,6 +85,15 @@ export function defineBlokkli<
   // the component, we use this state to override the options.
   const editContext = inject<ItemEditContext | null>(INJECT_EDIT_CONTEXT, null)
 
+  const responsiveKeys = Object.keys(config.options || {}).filter(
+    (key) => config.options?.[key]?.responsive,
+  )
+
+  // Only needed if the block has responsive options.
+  const currentBreakpoint = responsiveKeys.length
+    ? useCurrentBreakpoint()
+    : null
+
   const options = computed(() => {
     // For these two "special" bundles, at this stage we just return the raw
     // options defined on the item itself and the mutated options of the item.
@@ -95,7 +111,10 @@ export function defineBlokkli<
     }
 
     const result = optionKeys.reduce<
-      Record<string, string | boolean | string[] | number>
+      Record<
+        string,
+        string | boolean | string[] | number | BlockOptionLinkValue
+      >
     >((acc, key) => {
       // Use an override option if available.
       if (editContext) {
@@ -128,6 +147,18 @@ export function defineBlokkli<
       if (!definition) {
         return
       }
+      if (responsiveKeys.includes(key) && currentBreakpoint?.value) {
+        const resolved = resolveResponsiveOptionValue(
+          parseResponsiveOptionValue(result[key], breakpoints),
+          breakpoints,
+          currentBreakpoint.value,
+        )
+        result[key] = getRuntimeOptionValue(
+          definition,
+          resolved === undefined ? definition.default : resolved,
+        )
+        return
+      }
       const value =
         result[key] === undefined || result[key] === null
           ? definition.default
@@ -138,6 +169,43 @@ export function defineBlokkli<
     return result
   })
 
+  // The values of responsive options for every breakpoint.
+  const responsiveOptions = computed(() => {
+    if (
+      config.bundle === 'from_library' ||
+      config.bundle === 'blokkli_fragment'
+    ) {
+      return {}
+    }
+
+    return responsiveKeys.reduce<
+      Record<
+        string,
+        Record<
+          string,
+          string | boolean | string[] | number | BlockOptionLinkValue
+        >
+      >
+    >((acc, key) => {
+      const definition = config.options![key]
+      const value =
+        editContext?.mutatedOptions[uuid]?.[key] ??
+        fromLibraryOptions?.value[key] ??
+        item?.value.options?.[key]
+      const parsed = parseResponsiveOptionValue(value, breakpoints)
+      acc[key] = Object.entries(parsed).reduce<
+        Record<
+          string,
+          string | boolean | string[] | number | BlockOptionLinkValue
+        >
+      >((map, [id, v]) => {
+        map[id] = getRuntimeOptionValue(definition, v)
+        return map
+      }, {})
+      return acc
+    }, {})
+  })
+
   // The parent block type if this block is nested.
   const parentType = computed(() => item?.value.parentType)
 
@@ -183,6 +251,7 @@ export function defineBlokkli<
     uuid,
     index,
     options,
+    responsiveOptions,
     isEditing,
     parentType,
     fieldListType,
@@ -16,8 +16,15 @@ import type {
   FragmentDefinitionInput,
   ItemEditContext,
 } from '#blokkli/types'
+import type { BlockOptionLinkValue } from '#blokkli/types/blokkOptions'
 import type { GlobalOptionsKey } from '#blokkli/generated-types'
 import { globalOptionsDefaults } from '#blokkli/default-global-options'
+import {
+  parseResponsiveOptionValue,
+  resolveResponsiveOptionValue,
+} from '#blokkli/helpers/breakpoints'
+import { breakpoints } from '#blokkli/breakpoints'
+import useCurrentBreakpoint from '#blokkli/helpers/composables/useCurrentBreakpoint'
 
 export function defineBlokkliFragment<
   T extends BlockDefinitionOptionsInput = BlockDefinitionOptionsInput,
@@ -32,9 +39,21 @@ export function defineBlokkliFragment<
     ...(config.globalOptions || []),
   ]
 
+  const responsiveKeys = Object.keys(config.options || {}).filter(
+    (key) => config.options?.[key]?.responsive,
+  )
+
+  // Only needed if the fragment has responsive options.
+  const currentBreakpoint = responsiveKeys.length
+    ? useCurrentBreakpoint()
+    : null
+
   const options = computed(() => {
     const result = optionKeys.reduce<
-      Record<string, string | boolean | string[] | number>
+      Record<
+        string,
+        string | boolean | string[] | number | BlockOptionLinkValue
+      >
     >((acc, key) => {
       acc[key] = ctx!.options.value[key]
       return acc
@@ -46,6 +65,18 @@ export function defineBlokkliFragment<
       if (!definition) {
         return
       }
+      if (responsiveKeys.includes(key) && currentBreakpoint?.value) {
+        const resolved = resolveResponsiveOptionValue(
+          parseResponsiveOptionValue(result[key], breakpoints),
+          breakpoints,
+          currentBreakpoint.value,
+        )
+        result[key] = getRuntimeOptionValue(
+          definition,
+          resolved === undefined ? definition.default : resolved,
+        )
+        return
+      }
       const value =
         result[key] === undefined || result[key] === null
           ? definition.default
@@ -56,6 +87,35 @@ export function defineBlokkliFragment<
     return result
   })
 
+  // The values of responsive options for every breakpoint.
+  const responsiveOptions = computed(() => {
+    return responsiveKeys.reduce<
+      Record<
+        string,
+        Record<
+          string,
+          string | boolean | string[] | number | BlockOptionLinkValue
+        >
+      >
+    >((acc, key) => {
+      const definition = config.options![key]
+      const parsed = parseResponsiveOptionValue(
+        ctx!.options.value[key],
+        breakpoints,
+      )
+      acc[key] = Object.entries(parsed).reduce<
+        Record<
+          string,
+          string | boolean | string[] | number | BlockOptionLinkValue
+        >
+      >((map, [id, v]) => {
+        map[id] = getRuntimeOptionValue(definition, v)
+        return map
+      }, {})
+      return acc
+    }, {})
+  })
+
   onMounted(() => {
     if (editContext && editContext.dom) {
       // Block registration in defineBlokkli() is skipped for fragment blocks.
@@ -77,5 +137,5 @@ export function defineBlokkliFragment<
     }
   })
 
-  return { ...ctx, options } as any
+  return { ...ctx, options, responsiveOptions } as any
 }
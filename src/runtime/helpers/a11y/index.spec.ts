@@ -0,0 +1,45 @@
+import { test, describe, expect } from 'vitest'
+import {
+  blendColors,
+  getContrastRatio,
+  getHeadingOrderViolations,
+  getRequiredContrast,
+  parseColor,
+} from '.'
+
+describe('parseColor', () => {
+  test('Parses computed colors', () => {
+    expect(parseColor('rgb(255, 0, 10)')).toEqual([255, 0, 10, 1])
+    expect(parseColor('rgba(0, 0, 0, 0.5)')).toEqual([0, 0, 0, 0.5])
+    expect(parseColor('rgb(10 20 30 / 50%)')).toEqual([10, 20, 30, 0.5])
+    expect(parseColor('transparent')).toBeNull()
+  })
+})
+
+describe('getContrastRatio', () => {
+  test('Calculates the WCAG contrast ratio', () => {
+    expect(getContrastRatio([0, 0, 0, 1], [255, 255, 255, 1])).toEqual(21)
+    expect(
+      getContrastRatio([119, 119, 119, 1], [255, 255, 255, 1]),
+    ).toBeCloseTo(4.48, 2)
+  })
+
+  test('Blends transparent colors onto the background', () => {
+    expect(blendColors([0, 0, 0, 0.5], [255, 255, 255, 1])).toEqual([
+      127.5, 127.5, 127.5, 1,
+    ])
+  })
+
+  test('Requires less contrast for large text', () => {
+    expect(getRequiredContrast(16, 400)).toEqual(4.5)
+    expect(getRequiredContrast(19, 700)).toEqual(3)
+    expect(getRequiredContrast(24, 400)).toEqual(3)
+  })
+})
+
+describe('getHeadingOrderViolations', () => {
+  test('Returns headings that skip a level', () => {
+    expect(getHeadingOrderViolations([2, 3, 3, 2, 4, 5, 2, 6])).toEqual([4, 7])
+    expect(getHeadingOrderViolations([3, 1, 2])).toEqual([])
+  })
+})
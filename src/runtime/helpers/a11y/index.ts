@@ -0,0 +1,252 @@
+/**
+ * Client-side accessibility checks for the rendered page.
+ */
+
+export type RGBA = [number, number, number, number]
+
+export type A11yIssue =
+  | {
+      type: 'headingOrder'
+      element: HTMLElement
+      level: number
+      previousLevel: number
+    }
+  | { type: 'missingAlt'; element: HTMLElement }
+  | {
+      type: 'lowContrast'
+      element: HTMLElement
+      ratio: number
+      required: number
+    }
+  | { type: 'emptyLink'; element: HTMLElement }
+  | { type: 'duplicateId'; element: HTMLElement; id: string }
+
+export type A11yIssueType = A11yIssue['type']
+
+const WHITE: RGBA = [255, 255, 255, 1]
+
+/**
+ * Parse a computed CSS color in the rgb() or rgba() notation.
+ */
+export function parseColor(value: string): RGBA | null {
+  const match = /^rgba?\(([^)]*)\)$/.exec(value.trim())
+  if (!match) {
+    return null
+  }
+  const parts = match[1]
+    .split(/[\s,/]+/)
+    .filter(Boolean)
+    .map((v) =>
+      v.endsWith('%') ? Number.parseFloat(v) / 100 : Number.parseFloat(v),
+    )
+  if (parts.length < 3 || parts.some((v) => Number.isNaN(v))) {
+    return null
+  }
+  return [parts[0], parts[1], parts[2], parts[3] ?? 1]
+}
+
+/**
+ * Blend a (semi transparent) color onto an opaque background color.
+ */
+export function blendColors(color: RGBA, background: RGBA): RGBA {
+  const alpha = color[3]
+  return [
+    color[0] * alpha + background[0] * (1 - alpha),
+    color[1] * alpha + background[1] * (1 - alpha),
+    color[2] * alpha + background[2] * (1 - alpha),
+    1,
+  ]
+}
+
+function getRelativeLuminance(color: RGBA): number {
+  const [r, g, b] = color.slice(0, 3).map((v) => {
+    const c = v / 255
+    return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b
+}
+
+/**
+ * Get the WCAG contrast ratio between two opaque colors.
+ */
+export function getContrastRatio(a: RGBA, b: RGBA): number {
+  const l1 = getRelativeLuminance(a)
+  const l2 = getRelativeLuminance(b)
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05)
+}
+
+/**
+ * Get the minimum contrast ratio required by WCAG AA for the given font size
+ * in pixels and font weight.
+ */
+export function getRequiredContrast(
+  fontSize: number,
+  fontWeight: number,
+): number {
+  const isLarge = fontSize >= 24 || (fontSize >= 18.66 && fontWeight >= 700)
+  return isLarge ? 3 : 4.5
+}
+
+/**
+ * Get the indices of headings that skip a level, e.g. a h4 after a h2.
+ *
+ * The first heading is never a violation, as the preceding headings may be
+ * rendered outside of the analysed element.
+ */
+export function getHeadingOrderViolations(levels: number[]): number[] {
+  return levels.reduce<number[]>((acc, level, index) => {
+    if (index > 0 && level > levels[index - 1] + 1) {
+      acc.push(index)
+    }
+    return acc
+  }, [])
+}
+
+function isHidden(el: HTMLElement): boolean {
+  return !el.getClientRects().length
+}
+
+function getHeadingLevel(el: HTMLElement): number {
+  const ariaLevel = Number.parseInt(el.getAttribute('aria-level') || '')
+  if (ariaLevel) {
+    return ariaLevel
+  }
+  return Number.parseInt(el.tagName.charAt(1)) || 2
+}
+
+/**
+ * Get the opaque background color behind the element.
+ *
+ * Returns null if the background can't be determined, e.g. because of a
+ * background image.
+ */
+function getBackgroundColor(el: HTMLElement): RGBA | null {
+  const layers: RGBA[] = []
+  let current: HTMLElement | null = el
+  while (current) {
+    const style = window.getComputedStyle(current)
+    if (style.backgroundImage !== 'none') {
+      return null
+    }
+    const color = parseColor(style.backgroundColor)
+    if (color && color[3] > 0) {
+      layers.push(color)
+      if (color[3] >= 1) {
+        break
+      }
+    }
+    current = current.parentElement
+  }
+
+  return layers.reduceRight<RGBA>(
+    (background, layer) => blendColors(layer, background),
+    WHITE,
+  )
+}
+
+function checkHeadings(root: HTMLElement): A11yIssue[] {
+  const headings = [
+    ...root.querySelectorAll<HTMLElement>(
+      'h1, h2, h3, h4, h5, h6, [role="heading"]',
+    ),
+  ].filter((el) => !isHidden(el))
+  const levels = headings.map(getHeadingLevel)
+  return getHeadingOrderViolations(levels).map((index) => ({
+    type: 'headingOrder',
+    element: headings[index],
+    level: levels[index],
+    previousLevel: levels[index - 1],
+  }))
+}
+
+function checkImages(root: HTMLElement): A11yIssue[] {
+  return [
+    ...root.querySelectorAll<HTMLElement>(
+      'img:not([alt]), input[type="image"]:not([alt])',
+    ),
+  ]
+    .filter((el) => el.getAttribute('aria-hidden') !== 'true')
+    .map((element) => ({ type: 'missingAlt', element }))
+}
+
+function checkLinks(root: HTMLElement): A11yIssue[] {
+  return [...root.querySelectorAll<HTMLElement>('a[href]')]
+    .filter((el) => {
+      if (
+        el.textContent?.trim() ||
+        el.getAttribute('aria-label')?.trim() ||
+        el.getAttribute('aria-labelledby') ||
+        el.getAttribute('title')?.trim()
+      ) {
+        return false
+      }
+      return ![...el.querySelectorAll('img[alt], [aria-label]')].some((child) =>
+        (child.getAttribute('alt') || child.getAttribute('aria-label'))?.trim(),
+      )
+    })
+    .map((element) => ({ type: 'emptyLink', element }))
+}
+
+function checkIds(root: HTMLElement): A11yIssue[] {
+  const elements = [...root.querySelectorAll<HTMLElement>('[id]')]
+  const counts = elements.reduce<Record<string, number>>((acc, el) => {
+    acc[el.id] = (acc[el.id] || 0) + 1
+    return acc
+  }, {})
+  return elements
+    .filter((el) => el.id && counts[el.id] > 1)
+    .map((element) => ({ type: 'duplicateId', element, id: element.id }))
+}
+
+function checkContrast(root: HTMLElement): A11yIssue[] {
+  const elements = new Set<HTMLElement>()
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) {
+    const node = walker.currentNode
+    if (node.textContent?.trim() && node.parentElement) {
+      elements.add(node.parentElement)
+    }
+  }
+
+  const issues: A11yIssue[] = []
+  elements.forEach((element) => {
+    if (isHidden(element)) {
+      return
+    }
+    const style = window.getComputedStyle(element)
+    const color = parseColor(style.color)
+    const background = getBackgroundColor(element)
+    if (!color || !background) {
+      return
+    }
+    const ratio = getContrastRatio(blendColors(color, background), background)
+    const required = getRequiredContrast(
+      Number.parseFloat(style.fontSize),
+      Number.parseInt(style.fontWeight),
+    )
+    if (ratio < required) {
+      issues.push({
+        type: 'lowContrast',
+        element,
+        ratio: Math.round(ratio * 100) / 100,
+        required,
+      })
+    }
+  })
+  return issues
+}
+
+/**
+ * Run all accessibility checks on the given element.
+ *
+ * Elements of the editor UI are ignored.
+ */
+export function analyzeA11y(root: HTMLElement): A11yIssue[] {
+  return [
+    ...checkHeadings(root),
+    ...checkImages(root),
+    ...checkContrast(root),
+    ...checkLinks(root),
+    ...checkIds(root),
+  ].filter((issue) => !issue.element.closest('.bk'))
+}
@@ -0,0 +1,56 @@
+import { test, describe, expect } from 'vitest'
+import {
+  getBreakpointForWidth,
+  parseResponsiveOptionValue,
+  resolveResponsiveOptionValue,
+} from '.'
+
+const breakpoints = [
+  { id: 'mobile', label: 'Mobile', minWidth: 0 },
+  { id: 'tablet', label: 'Tablet', minWidth: 768 },
+  { id: 'desktop', label: 'Desktop', minWidth: 1024 },
+]
+
+describe('getBreakpointForWidth', () => {
+  test('Returns the largest matching breakpoint', () => {
+    expect(getBreakpointForWidth(breakpoints, 320)?.id).toBe('mobile')
+    expect(getBreakpointForWidth(breakpoints, 768)?.id).toBe('tablet')
+    expect(getBreakpointForWidth(breakpoints, 1920)?.id).toBe('desktop')
+  })
+
+  test('Returns the first breakpoint without a width', () => {
+    expect(getBreakpointForWidth(breakpoints, null)?.id).toBe('mobile')
+  })
+})
+
+describe('parseResponsiveOptionValue', () => {
+  test('Parses a JSON encoded map', () => {
+    expect(
+      parseResponsiveOptionValue('{"mobile":"1","desktop":"3"}', breakpoints),
+    ).toEqual({ mobile: '1', desktop: '3' })
+  })
+
+  test('Uses a plain value for the first breakpoint', () => {
+    expect(parseResponsiveOptionValue('grid', breakpoints)).toEqual({
+      mobile: 'grid',
+    })
+    expect(
+      parseResponsiveOptionValue('{"url":"/","label":"Home"}', breakpoints),
+    ).toEqual({ mobile: '{"url":"/","label":"Home"}' })
+    expect(parseResponsiveOptionValue('', breakpoints)).toEqual({})
+  })
+})
+
+describe('resolveResponsiveOptionValue', () => {
+  test('Inherits the value of smaller breakpoints', () => {
+    const value = { mobile: '1', desktop: '3' }
+    expect(resolveResponsiveOptionValue(value, breakpoints, 'mobile')).toBe('1')
+    expect(resolveResponsiveOptionValue(value, breakpoints, 'tablet')).toBe('1')
+    expect(resolveResponsiveOptionValue(value, breakpoints, 'desktop')).toBe(
+      '3',
+    )
+    expect(
+      resolveResponsiveOptionValue({ tablet: '2' }, breakpoints, 'mobile'),
+    ).toBeUndefined()
+  })
+})
@@ -0,0 +1,114 @@
+/**
+ * Helpers for responsive block options.
+ *
+ * The value of a responsive option is stored as a JSON encoded map of
+ * breakpoint ID to value. Values are resolved "mobile first": A breakpoint
+ * without a value inherits the value of the next smaller breakpoint.
+ */
+
+import type { BlokkliBreakpoint } from '../../types'
+
+export type ResponsiveOptionValue = Record<string, string>
+
+/**
+ * Get the breakpoint that applies to the given viewport width.
+ *
+ * If no width is given (e.g. during SSR), the first breakpoint is returned.
+ */
+export function getBreakpointForWidth(
+  breakpoints: BlokkliBreakpoint[],
+  width: number | null | undefined,
+): BlokkliBreakpoint | undefined {
+  if (width === null || width === undefined) {
+    return breakpoints[0]
+  }
+
+  return breakpoints.reduce<BlokkliBreakpoint | undefined>(
+    (acc, breakpoint) => {
+      if (width >= breakpoint.minWidth) {
+        return breakpoint
+      }
+      return acc
+    },
+    breakpoints[0],
+  )
+}
+
+/**
+ * Parse the stored value of a responsive option.
+ *
+ * A value that is not a JSON encoded map (e.g. when an existing option was
+ * made responsive) is used as the value of the first breakpoint.
+ */
+export function parseResponsiveOptionValue(
+  value: unknown,
+  breakpoints: BlokkliBreakpoint[],
+): ResponsiveOptionValue {
+  if (value === undefined || value === null || value === '') {
+    return {}
+  }
+
+  if (typeof value === 'string' && value.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(value)
+      if (
+        parsed &&
+        typeof parsed === 'object' &&
+        !Array.isArray(parsed) &&
+        // Values of other types may also be JSON encoded objects (e.g. links).
+        Object.keys(parsed).every((id) => breakpoints.some((v) => v.id === id))
+      ) {
+        return Object.entries(parsed).reduce<ResponsiveOptionValue>(
+          (acc, [id, v]) => {
+            if (v !== undefined && v !== null) {
+              acc[id] = typeof v === 'string' ? v : JSON.stringify(v)
+            }
+            return acc
+          },
+          {},
+        )
+      }
+    } catch {
+      // Not a responsive value.
+    }
+  }
+
+  const first = breakpoints[0]
+  if (!first) {
+    return {}
+  }
+
+  return {
+    [first.id]: typeof value === 'string' ? value : JSON.stringify(value),
+  }
+}
+
+/**
+ * Serialize the values of a responsive option for storage.
+ */
+export function serializeResponsiveOptionValue(
+  value: ResponsiveOptionValue,
+): string {
+  return JSON.stringify(value)
+}
+
+/**
+ * Resolve the value for the given breakpoint.
+ *
+ * Falls back to the value of the next smaller breakpoint that defines one.
+ */
+export function resolveResponsiveOptionValue(
+  value: ResponsiveOptionValue,
+  breakpoints: BlokkliBreakpoint[],
+  breakpointId: string,
+): string | undefined {
+  const index = breakpoints.findIndex((v) => v.id === breakpointId)
+  const candidates = breakpoints.slice(0, index === -1 ? 1 : index + 1)
+
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    const v = value[candidates[i].id]
+    if (v !== undefined) {
+      return v
+    }
+  }
+}
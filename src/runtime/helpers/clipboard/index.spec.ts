@@ -0,0 +1,93 @@
+import { test, describe, expect } from 'vitest'
+import { buildClipboardPayload, parseClipboardPayload } from '.'
+
+const entity = { type: 'content', uuid: 'page', bundle: 'page' }
+
+describe('buildClipboardPayload', () => {
+  test('Includes nested blocks', () => {
+    const payload = buildClipboardPayload(
+      [{ uuid: '1', bundle: 'grid', options: { columns: 'two' } }],
+      [
+        {
+          name: 'field_blocks',
+          entityType: 'content',
+          entityUuid: 'page',
+          list: [{ uuid: '1', bundle: 'grid' }],
+        },
+        {
+          name: 'blocks',
+          entityType: 'block',
+          entityUuid: '1',
+          list: [{ uuid: '2', bundle: 'text', props: { text: 'Hello' } }],
+        },
+      ],
+      {},
+      'block',
+      entity,
+    )
+
+    expect(payload.blocks).toEqual([
+      {
+        uuid: '1',
+        bundle: 'grid',
+        options: { columns: 'two' },
+        props: {},
+        fields: {
+          blocks: [
+            {
+              uuid: '2',
+              bundle: 'text',
+              options: {},
+              props: { text: 'Hello' },
+              fields: {},
+            },
+          ],
+        },
+      },
+    ])
+  })
+
+  test('Includes options that have not been saved yet', () => {
+    const payload = buildClipboardPayload(
+      [{ uuid: '1', bundle: 'text', options: { color: 'red', size: 'l' } }],
+      [],
+      { '1': { color: 'blue' } },
+      'block',
+      entity,
+    )
+
+    expect(payload.blocks[0].options).toEqual({ color: 'blue', size: 'l' })
+  })
+})
+
+describe('parseClipboardPayload', () => {
+  test('Parses a valid payload', () => {
+    const payload = buildClipboardPayload(
+      [{ uuid: '1', bundle: 'text' }],
+      [],
+      {},
+      'block',
+      entity,
+    )
+    expect(parseClipboardPayload(JSON.stringify(payload))).toEqual(payload)
+  })
+
+  test('Rejects other data and incompatible versions', () => {
+    expect(parseClipboardPayload('Hello')).toBeUndefined()
+    expect(
+      parseClipboardPayload(
+        JSON.stringify({ type: 'selection', uuids: ['1'] }),
+      ),
+    ).toBeUndefined()
+    expect(
+      parseClipboardPayload(
+        JSON.stringify({
+          type: 'blokkli:blocks',
+          version: 999,
+          entity,
+          blocks: [{ uuid: '1', bundle: 'text' }],
+        }),
+      ),
+    ).toBeUndefined()
+  })
+})
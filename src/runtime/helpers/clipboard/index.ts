@@ -0,0 +1,104 @@
+/**
+ * Helpers to copy blocks to the system clipboard and paste them again,
+ * possibly on a different page.
+ */
+
+import type {
+  ClipboardBlock,
+  ClipboardBlocksPayload,
+  FieldListItem,
+  MutatedField,
+  MutatedOptions,
+} from '../../types'
+
+/**
+ * The MIME type used for the serialized blocks.
+ */
+export const CLIPBOARD_BLOCKS_MIME_TYPE = 'application/x-blokkli-blocks+json'
+
+/**
+ * The current version of the payload.
+ */
+export const CLIPBOARD_BLOCKS_VERSION = 1
+
+/**
+ * Serialize a block and all its nested blocks.
+ *
+ * The options include changes that have not been saved yet.
+ */
+function serializeBlock(
+  item: FieldListItem,
+  fields: MutatedField[],
+  mutatedOptions: MutatedOptions,
+  itemEntityType: string,
+): ClipboardBlock {
+  return {
+    uuid: item.uuid,
+    bundle: item.bundle,
+    options: {
+      ...(item.options || {}),
+      ...(mutatedOptions[item.uuid] || {}),
+    },
+    props: JSON.parse(JSON.stringify(item.props || {})),
+    fields: fields
+      .filter(
+        (field) =>
+          field.entityType === itemEntityType && field.entityUuid === item.uuid,
+      )
+      .reduce<Record<string, ClipboardBlock[]>>((acc, field) => {
+        acc[field.name] = field.list.map((child) =>
+          serializeBlock(child, fields, mutatedOptions, itemEntityType),
+        )
+        return acc
+      }, {}),
+  }
+}
+
+/**
+ * Build the clipboard payload for the given blocks.
+ */
+export function buildClipboardPayload(
+  items: FieldListItem[],
+  fields: MutatedField[],
+  mutatedOptions: MutatedOptions,
+  itemEntityType: string,
+  entity: ClipboardBlocksPayload['entity'],
+): ClipboardBlocksPayload {
+  return {
+    type: 'blokkli:blocks',
+    version: CLIPBOARD_BLOCKS_VERSION,
+    entity,
+    blocks: items.map((item) =>
+      serializeBlock(item, fields, mutatedOptions, itemEntityType),
+    ),
+  }
+}
+
+/**
+ * Parse a clipboard payload.
+ *
+ * Returns undefined if the text is not a payload or if it was created by an
+ * incompatible version.
+ */
+export function parseClipboardPayload(
+  text: string | undefined | null,
+): ClipboardBlocksPayload | undefined {
+  if (!text || !text.startsWith('{')) {
+    return
+  }
+
+  try {
+    const data = JSON.parse(text)
+    if (
+      data &&
+      data.type === 'blokkli:blocks' &&
+      data.version === CLIPBOARD_BLOCKS_VERSION &&
+      Array.isArray(data.blocks) &&
+      data.blocks.length
+    ) {
+      return data as ClipboardBlocksPayload
+    }
+  } catch {
+    // Not a payload.
+  }
+}
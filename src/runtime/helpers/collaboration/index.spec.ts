@@ -0,0 +1,78 @@
+// @vitest-environment happy-dom
+import { test, describe, expect, vi, afterEach } from 'vitest'
+import { createBroadcastCollaboration, getCollaborationColor } from '.'
+import type { CollaborationConnection } from '../../adapter'
+import type { MappedState } from '../../types'
+
+const wait = () => new Promise((resolve) => setTimeout(resolve, 20))
+
+const connections: CollaborationConnection[] = []
+
+function connect(channel: string, id: string) {
+  const onState = vi.fn()
+  const onPresence = vi.fn()
+  const connection = createBroadcastCollaboration({
+    channel,
+    user: { id, label: 'User ' + id },
+  })({ onState, onPresence })
+  connections.push(connection)
+  return { connection, onState, onPresence }
+}
+
+afterEach(() => {
+  connections.forEach((v) => v.unsubscribe())
+  connections.length = 0
+})
+
+describe('createBroadcastCollaboration', () => {
+  test('Sends the presence to the other users', async () => {
+    const a = connect('presence', 'a')
+    const b = connect('presence', 'b')
+    await wait()
+    expect(b.onPresence).toHaveBeenLastCalledWith([
+      { user: { id: 'a', label: 'User a' }, selectedUuids: [], cursor: null },
+    ])
+
+    a.connection.updatePresence({
+      selectedUuids: ['1'],
+      cursor: { x: 10, y: 20 },
+    })
+    await wait()
+    expect(b.onPresence).toHaveBeenLastCalledWith([
+      {
+        user: { id: 'a', label: 'User a' },
+        selectedUuids: ['1'],
+        cursor: { x: 10, y: 20 },
+      },
+    ])
+
+    connections.splice(connections.indexOf(a.connection), 1)
+    a.connection.unsubscribe()
+    await wait()
+    expect(b.onPresence).toHaveBeenLastCalledWith([])
+    expect(a.onState).not.toHaveBeenCalled()
+  })
+
+  test('Sends the state to the other users on the same channel', async () => {
+    const a = connect('state_de', 'a')
+    const b = connect('state_de', 'b')
+    const c = connect('state_fr', 'c')
+    const state = { currentIndex: 1, ownerName: 'a' } as MappedState
+    a.connection.publishState!(state)
+    await wait()
+    expect(a.onState).not.toHaveBeenCalled()
+    expect(b.onState).toHaveBeenCalledWith(state)
+    expect(c.onState).not.toHaveBeenCalled()
+  })
+})
+
+describe('getCollaborationColor', () => {
+  test('Returns the same color for the same user', () => {
+    expect(getCollaborationColor({ id: '1', label: 'A', color: 'red' })).toBe(
+      'red',
+    )
+    expect(getCollaborationColor({ id: 'foo', label: 'A' })).toEqual(
+      getCollaborationColor({ id: 'foo', label: 'B' }),
+    )
+  })
+})
@@ -0,0 +1,162 @@
+import type {
+  CollaborationConnection,
+  CollaborationSubscribeEvent,
+} from '../../adapter'
+import type {
+  CollaborationPresence,
+  CollaborationPresenceUpdate,
+  CollaborationUser,
+  MappedState,
+} from '../../types'
+
+export type BroadcastCollaborationOptions = {
+  /**
+   * The name of the BroadcastChannel. Should be unique per edited entity and
+   * language, so that states of different translations are not mixed.
+   */
+  channel: string
+
+  /**
+   * The current user.
+   */
+  user: CollaborationUser
+
+  /**
+   * The time in milliseconds after which a user without any updates is
+   * considered to have left.
+   */
+  timeout?: number
+}
+
+type BroadcastCollaborationMessage =
+  | {
+      type: 'join' | 'leave'
+      senderId: string
+    }
+  | {
+      type: 'presence'
+      senderId: string
+      presence: CollaborationPresence
+    }
+  | {
+      type: 'state'
+      senderId: string
+      state: MappedState
+    }
+
+/**
+ * Create a collaboration transport based on a BroadcastChannel.
+ *
+ * Only editors in other tabs of the same browser will be visible. This is
+ * meant for local development or as a reference implementation for
+ * transports using WebSockets or similar.
+ */
+export function createBroadcastCollaboration(
+  options: BroadcastCollaborationOptions,
+) {
+  const timeout = options.timeout || 10000
+
+  return function (e: CollaborationSubscribeEvent): CollaborationConnection {
+    const senderId = Math.round(Math.random() * 10000000000).toString()
+    const channel = new BroadcastChannel(options.channel)
+    const peers = new Map<
+      string,
+      { presence: CollaborationPresence; time: number }
+    >()
+    let current: CollaborationPresenceUpdate = {
+      selectedUuids: [],
+      cursor: null,
+    }
+
+    const post = (message: BroadcastCollaborationMessage) =>
+      channel.postMessage(message)
+
+    const emitPresence = () =>
+      e.onPresence([...peers.values()].map((v) => v.presence))
+
+    const sendPresence = () =>
+      post({
+        type: 'presence',
+        senderId,
+        presence: { ...current, user: options.user },
+      })
+
+    channel.addEventListener(
+      'message',
+      (message: MessageEvent<BroadcastCollaborationMessage>) => {
+        const data = message.data
+        if (data.senderId === senderId) {
+          return
+        }
+
+        if (data.type === 'join') {
+          // Let the new user know about us.
+          sendPresence()
+        } else if (data.type === 'leave') {
+          peers.delete(data.senderId)
+          emitPresence()
+        } else if (data.type === 'presence') {
+          peers.set(data.senderId, {
+            presence: data.presence,
+            time: Date.now(),
+          })
+          emitPresence()
+        } else if (data.type === 'state') {
+          e.onState(data.state)
+        }
+      },
+    )
+
+    // Periodically send the presence, so that other users can detect when
+    // a tab was closed without sending a "leave" message.
+    const interval = window.setInterval(() => {
+      sendPresence()
+      const now = Date.now()
+      const expired = [...peers.entries()]
+        .filter(([, v]) => now - v.time > timeout)
+        .map(([id]) => id)
+      if (expired.length) {
+        expired.forEach((id) => peers.delete(id))
+        emitPresence()
+      }
+    }, timeout / 3)
+
+    post({ type: 'join', senderId })
+    sendPresence()
+
+    return {
+      updatePresence(presence) {
+        current = presence
+        sendPresence()
+      },
+      publishState(state) {
+        // Make sure the state can be cloned.
+        post({
+          type: 'state',
+          senderId,
+          state: JSON.parse(JSON.stringify(state)),
+        })
+      },
+      unsubscribe() {
+        window.clearInterval(interval)
+        post({ type: 'leave', senderId })
+        channel.close()
+      },
+    }
+  }
+}
+
+/**
+ * Get the color used to highlight the cursor and selection of a user.
+ */
+export function getCollaborationColor(user: CollaborationUser): string {
+  if (user.color) {
+    return user.color
+  }
+
+  let hash = 0
+  for (let i = 0; i < user.id.length; i++) {
+    hash = (hash * 31 + user.id.charCodeAt(i)) % 360
+  }
+  return `hsl(${hash}, 70%, 45%)`
+}
@@ -0,0 +1,75 @@
+import { test, describe, expect } from 'vitest'
+import type { MutatedField } from '#blokkli/types'
+import { compareStates } from '.'
+
+const field = (uuids: string[], name = 'field_blocks'): MutatedField => ({
+  name,
+  entityType: 'node',
+  entityUuid: '1',
+  list: uuids.map((uuid) => ({
+    uuid,
+    bundle: 'text',
+    options: {},
+    props: { text: uuid },
+  })),
+})
+
+const getStatus = (diffs: ReturnType<typeof compareStates>) =>
+  Object.fromEntries([...diffs.values()].map((v) => [v.uuid, v.status]))
+
+describe('compareStates', () => {
+  test('Detects added and removed blocks', () => {
+    const diffs = compareStates(
+      { fields: [field(['a', 'b'])] },
+      { fields: [field(['a', 'c'])] },
+    )
+    expect(getStatus(diffs)).toEqual({
+      a: 'unchanged',
+      b: 'removed',
+      c: 'added',
+    })
+  })
+
+  test('Only marks the actually moved blocks', () => {
+    const diffs = compareStates(
+      { fields: [field(['a', 'b', 'c', 'd'])] },
+      { fields: [field(['new', 'b', 'c', 'd', 'a'])] },
+    )
+    expect(getStatus(diffs)).toEqual({
+      new: 'added',
+      a: 'moved',
+      b: 'unchanged',
+      c: 'unchanged',
+      d: 'unchanged',
+    })
+  })
+
+  test('Detects blocks moved to another field', () => {
+    const diffs = compareStates(
+      { fields: [field(['a', 'b']), field([], 'field_other')] },
+      { fields: [field(['a']), field(['b'], 'field_other')] },
+    )
+    expect(getStatus(diffs)).toEqual({ a: 'unchanged', b: 'moved' })
+  })
+
+  test('Detects changed options and content', () => {
+    const published = field(['a', 'b'])
+    const current = field(['a', 'b'])
+    current.list[1].props = { text: 'Changed' }
+    const diffs = compareStates(
+      { fields: [published] },
+      {
+        fields: [current],
+        mutatedOptions: { a: { color: 'red' } },
+      },
+    )
+    expect(diffs.get('a')).toEqual({
+      uuid: 'a',
+      bundle: 'text',
+      status: 'changed',
+      changedOptions: ['color'],
+      contentChanged: false,
+    })
+    expect(diffs.get('b')?.contentChanged).toBe(true)
+  })
+})
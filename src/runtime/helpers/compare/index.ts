@@ -0,0 +1,197 @@
+/**
+ * Helpers to compare the blocks of two states, e.g. the published state and
+ * the current edit state.
+ */
+
+import type {
+  FieldListItem,
+  MutatedField,
+  MutatedOptions,
+} from '#blokkli/types'
+
+export type BlockDiffStatus =
+  | 'added'
+  | 'removed'
+  | 'moved'
+  | 'changed'
+  | 'unchanged'
+
+export type BlockDiff = {
+  uuid: string
+  bundle: string
+  status: BlockDiffStatus
+
+  /**
+   * The keys of the options that have a different value.
+   */
+  changedOptions: string[]
+
+  /**
+   * Whether the props (the content) of the block have changed.
+   */
+  contentChanged: boolean
+}
+
+export type CompareInput = {
+  fields: MutatedField[]
+  mutatedOptions?: MutatedOptions
+}
+
+type BlockLocation = {
+  item: FieldListItem
+  fieldKey: string
+  options: Record<string, any>
+}
+
+function getBlockLocations(input: CompareInput): Map<string, BlockLocation> {
+  const map = new Map<string, BlockLocation>()
+  for (const field of input.fields) {
+    const fieldKey = field.entityUuid + ':' + field.name
+    for (const item of field.list) {
+      map.set(item.uuid, {
+        item,
+        fieldKey,
+        options: {
+          ...item.options,
+          ...input.mutatedOptions?.[item.uuid],
+        },
+      })
+    }
+  }
+  return map
+}
+
+/**
+ * Get the items of both lists that are part of the longest common
+ * subsequence. All other items that exist in both lists have been moved.
+ */
+function getUnmovedItems(a: string[], b: string[]): Set<string> {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    Array.from({ length: b.length + 1 }, () => 0),
+  )
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const result = new Set<string>()
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.add(a[i])
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++
+    } else {
+      j++
+    }
+  }
+
+  return result
+}
+
+function getChangedOptions(
+  a: Record<string, any>,
+  b: Record<string, any>,
+): string[] {
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])]
+  return keys.filter((key) => JSON.stringify(a[key]) !== JSON.stringify(b[key]))
+}
+
+/**
+ * Compare the blocks of the published and the current state.
+ *
+ * Returns a map of block UUID to the diff of the block, including the
+ * blocks that only exist in the published state.
+ */
+export function compareStates(
+  published: CompareInput,
+  current: CompareInput,
+): Map<string, BlockDiff> {
+  const publishedBlocks = getBlockLocations(published)
+  const currentBlocks = getBlockLocations(current)
+  const diffs = new Map<string, BlockDiff>()
+
+  // Determine the blocks that kept their position relative to the other
+  // blocks in the same field.
+  const unmoved = new Set<string>()
+  const fieldKeys = new Set([
+    ...[...publishedBlocks.values()].map((v) => v.fieldKey),
+    ...[...currentBlocks.values()].map((v) => v.fieldKey),
+  ])
+  const getCommonUuids = (input: CompareInput, fieldKey: string) =>
+    (
+      input.fields.find((v) => v.entityUuid + ':' + v.name === fieldKey)
+        ?.list || []
+    )
+      .map((v) => v.uuid)
+      .filter(
+        (uuid) =>
+          publishedBlocks.get(uuid)?.fieldKey === fieldKey &&
+          currentBlocks.get(uuid)?.fieldKey === fieldKey,
+      )
+  for (const fieldKey of fieldKeys) {
+    getUnmovedItems(
+      getCommonUuids(published, fieldKey),
+      getCommonUuids(current, fieldKey),
+    ).forEach((uuid) => unmoved.add(uuid))
+  }
+
+  for (const [uuid, location] of currentBlocks) {
+    const publishedLocation = publishedBlocks.get(uuid)
+    if (!publishedLocation) {
+      diffs.set(uuid, {
+        uuid,
+        bundle: location.item.bundle,
+        status: 'added',
+        changedOptions: [],
+        contentChanged: false,
+      })
+      continue
+    }
+
+    const changedOptions = getChangedOptions(
+      publishedLocation.options,
+      location.options,
+    )
+    const contentChanged =
+      JSON.stringify(publishedLocation.item.props || {}) !==
+      JSON.stringify(location.item.props || {})
+
+    let status: BlockDiffStatus = 'unchanged'
+    if (!unmoved.has(uuid)) {
+      status = 'moved'
+    } else if (changedOptions.length || contentChanged) {
+      status = 'changed'
+    }
+
+    diffs.set(uuid, {
+      uuid,
+      bundle: location.item.bundle,
+      status,
+      changedOptions,
+      contentChanged,
+    })
+  }
+
+  for (const [uuid, location] of publishedBlocks) {
+    if (!currentBlocks.has(uuid)) {
+      diffs.set(uuid, {
+        uuid,
+        bundle: location.item.bundle,
+        status: 'removed',
+        changedOptions: [],
+        contentChanged: false,
+      })
+    }
+  }
+
+  return diffs
+}
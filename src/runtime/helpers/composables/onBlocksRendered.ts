@@ -0,0 +1,31 @@
+import { onBeforeUnmount, onMounted } from '#imports'
+import onBlokkliEvent from './onBlokkliEvent'
+
+/**
+ * Call the callback when the component is mounted and every time the state
+ * is reloaded.
+ *
+ * The blocks are rendered after the state has been reloaded, so the callback
+ * is debounced to wait until they are in the DOM. If immediate is true, the
+ * callback is called right away when mounting.
+ */
+export default function (cb: () => void, immediate = false) {
+  let timeout: number | null = null
+
+  function schedule() {
+    if (timeout) {
+      window.clearTimeout(timeout)
+    }
+    timeout = window.setTimeout(cb, 300)
+  }
+
+  onBlokkliEvent('state:reloaded', schedule)
+
+  onMounted(immediate ? cb : schedule)
+
+  onBeforeUnmount(() => {
+    if (timeout) {
+      window.clearTimeout(timeout)
+    }
+  })
+}
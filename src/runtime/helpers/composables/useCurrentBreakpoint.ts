@@ -0,0 +1,36 @@
+import { computed, onBeforeUnmount, onMounted, ref } from '#imports'
+import { breakpoints } from '#blokkli/breakpoints'
+import { getBreakpointForWidth } from '#blokkli/helpers/breakpoints'
+
+// Shared between all blocks, so that only a single resize listener is needed.
+const width = ref<number | null>(null)
+let subscribers = 0
+
+function onResize() {
+  width.value = window.innerWidth
+}
+
+/**
+ * Returns the ID of the breakpoint matching the current viewport width.
+ *
+ * The width is only determined after mounting, so that server and client
+ * render the first breakpoint during hydration.
+ */
+export default function () {
+  onMounted(() => {
+    if (subscribers === 0) {
+      window.addEventListener('resize', onResize, { passive: true })
+    }
+    subscribers++
+    onResize()
+  })
+
+  onBeforeUnmount(() => {
+    subscribers--
+    if (subscribers === 0) {
+      window.removeEventListener('resize', onResize)
+    }
+  })
+
+  return computed(() => getBreakpointForWidth(breakpoints, width.value)?.id)
+}
@@ -0,0 +1,69 @@
+import { useBlokkli } from '#imports'
+import { falsy } from '#blokkli/helpers'
+import type { EditableFieldType } from '#blokkli/types'
+
+export type TranslatableField = {
+  uuid: string
+  fieldName: string
+  label: string
+  type: EditableFieldType
+  maxLength: number
+
+  /**
+   * The value currently rendered on the page.
+   */
+  value: string
+}
+
+/**
+ * Returns a method to collect the plain and markup editable fields of all
+ * translatable blocks on the page, in document order.
+ */
+export default function () {
+  const { types, dom, ui, runtimeConfig } = useBlokkli()
+
+  return function getTranslatableFields(): TranslatableField[] {
+    return [
+      ...ui
+        .providerElement()
+        .querySelectorAll<HTMLElement>('[data-blokkli-editable-field]'),
+    ]
+      .map((element) => {
+        const uuid = element
+          .closest<HTMLElement>('[data-uuid]')
+          ?.getAttribute('data-uuid')
+        const fieldName = element.dataset.blokkliEditableField
+        const block = uuid ? dom.findBlock(uuid) : undefined
+        if (!block || !fieldName || block.libraryItemUuid) {
+          return null
+        }
+        const bundle = types.getBlockBundleDefinition(block.itemBundle)
+        if (!bundle?.isTranslatable) {
+          return null
+        }
+        const config = types.editableFieldConfig.forName(
+          runtimeConfig.itemEntityType,
+          block.itemBundle,
+          fieldName,
+        )
+        if (!config || (config.type !== 'plain' && config.type !== 'markup')) {
+          return null
+        }
+        const value =
+          element.dataset.blokkliEditableComponent === 'true'
+            ? element.dataset.blokkliEditableValue || ''
+            : config.type === 'markup'
+              ? element.innerHTML
+              : element.textContent || ''
+        return {
+          uuid: block.uuid,
+          fieldName,
+          label: [bundle.label, config.label].join(' » '),
+          type: config.type,
+          maxLength: config.maxLength,
+          value: value.trim(),
+        }
+      })
+      .filter(falsy)
+  }
+}
@@ -0,0 +1,42 @@
+import { test, describe, expect } from 'vitest'
+import { buildHeadingOutline } from '.'
+
+describe('buildHeadingOutline', () => {
+  test('Nests headings by level and flags skipped levels', () => {
+    expect(
+      buildHeadingOutline([
+        { level: 2, text: 'A', uuid: '1' },
+        { level: 3, text: 'A.1', uuid: '1' },
+        { level: 5, text: 'A.1.1', uuid: '2' },
+        { level: 2, text: 'B', uuid: '3' },
+        { level: 1, text: 'C' },
+      ]),
+    ).toEqual([
+      {
+        level: 2,
+        text: 'A',
+        uuid: '1',
+        skipped: false,
+        children: [
+          {
+            level: 3,
+            text: 'A.1',
+            uuid: '1',
+            skipped: false,
+            children: [
+              {
+                level: 5,
+                text: 'A.1.1',
+                uuid: '2',
+                skipped: true,
+                children: [],
+              },
+            ],
+          },
+        ],
+      },
+      { level: 2, text: 'B', uuid: '3', skipped: false, children: [] },
+      { level: 1, text: 'C', skipped: false, children: [] },
+    ])
+  })
+})
@@ -0,0 +1,63 @@
+import { getHeadingOrderViolations } from '../a11y'
+
+export type HeadingOutlineInput = {
+  /**
+   * The level of the heading, from 1 to 6.
+   */
+  level: number
+
+  /**
+   * The text of the heading.
+   */
+  text: string
+
+  /**
+   * The UUID of the block rendering the heading.
+   */
+  uuid?: string
+}
+
+export type HeadingOutlineItem = HeadingOutlineInput & {
+  /**
+   * Whether the heading skips a level compared to the previous heading.
+   */
+  skipped: boolean
+
+  /**
+   * The headings with a higher level that follow this heading.
+   */
+  children: HeadingOutlineItem[]
+}
+
+/**
+ * Build a tree of the headings in document order, nested by level.
+ */
+export function buildHeadingOutline(
+  headings: HeadingOutlineInput[],
+): HeadingOutlineItem[] {
+  const skipped = getHeadingOrderViolations(headings.map((v) => v.level))
+  const root: HeadingOutlineItem[] = []
+  const stack: HeadingOutlineItem[] = []
+
+  headings.forEach((heading, index) => {
+    const item: HeadingOutlineItem = {
+      ...heading,
+      skipped: skipped.includes(index),
+      children: [],
+    }
+
+    while (stack.length && stack[stack.length - 1].level >= item.level) {
+      stack.pop()
+    }
+
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.children.push(item)
+    } else {
+      root.push(item)
+    }
+    stack.push(item)
+  })
+
+  return root
+}
@@ -0,0 +1,49 @@
+// @vitest-environment happy-dom
+import { test, describe, expect } from 'vitest'
+import { splitPastedHtml } from '.'
+
+describe('splitPastedHtml', () => {
+  test('Splits headings, paragraphs, lists, tables and images', () => {
+    const html = `
+      <h1 class="title">Title</h1>
+      <p style="color: red">First <b>bold</b> <a href="/foo" target="_blank">link</a></p>
+      <ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>
+      <table><tr><th>A</th><th>B</th></tr><tr><td>1</td><td>2</td></tr></table>
+      <p><img src="https://example.com/image.jpg" alt="Alt"></p>
+    `
+    expect(splitPastedHtml(html)).toEqual([
+      { type: 'heading', level: 1, text: 'Title' },
+      {
+        type: 'paragraph',
+        html: 'First <strong>bold</strong> <a href="/foo">link</a>',
+      },
+      {
+        type: 'list',
+        ordered: false,
+        html: '<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>',
+      },
+      {
+        type: 'table',
+        html: '<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td>2</td></tr></tbody></table>',
+      },
+      { type: 'image', src: 'https://example.com/image.jpg', alt: 'Alt' },
+    ])
+  })
+
+  test('Unwraps the Google Docs wrapper and keeps styled formatting', () => {
+    const html = `<meta charset="utf-8"><b style="font-weight:normal;" id="docs-internal-guid-1"><h2><span>Heading</span></h2><p><span style="font-weight:700">Bold</span> <span style="font-style:italic">italic</span></p></b>`
+    expect(splitPastedHtml(html)).toEqual([
+      { type: 'heading', level: 2, text: 'Heading' },
+      {
+        type: 'paragraph',
+        html: '<strong>Bold</strong> <em>italic</em>',
+      },
+    ])
+  })
+
+  test('Skips empty paragraphs', () => {
+    expect(splitPastedHtml('<p>&nbsp;</p><p><br></p><p>Text</p>')).toEqual([
+      { type: 'paragraph', html: 'Text' },
+    ])
+  })
+})
@@ -0,0 +1,284 @@
+/**
+ * Helpers to split pasted HTML (e.g. from Word or Google Docs) into separate
+ * fragments that can each be mapped to a block bundle.
+ *
+ * The markup of every fragment is sanitized: Only a small set of inline
+ * elements is kept and all attributes except for links are removed.
+ */
+
+import { serializeTable } from '../table'
+import { isSafeUrl } from '../url'
+
+export type HtmlPasteFragment =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; html: string }
+  | { type: 'list'; ordered: boolean; html: string }
+  | { type: 'table'; html: string }
+  | { type: 'image'; src: string; alt: string }
+
+const BLOCK_TAGS = [
+  'ADDRESS',
+  'ARTICLE',
+  'ASIDE',
+  'BLOCKQUOTE',
+  'DIV',
+  'FIGURE',
+  'FOOTER',
+  'H1',
+  'H2',
+  'H3',
+  'H4',
+  'H5',
+  'H6',
+  'HEADER',
+  'HR',
+  'IMG',
+  'MAIN',
+  'OL',
+  'P',
+  'PRE',
+  'SECTION',
+  'TABLE',
+  'UL',
+]
+
+const INLINE_TAGS: Record<string, string> = {
+  STRONG: 'strong',
+  B: 'strong',
+  EM: 'em',
+  I: 'em',
+  U: 'u',
+  SUB: 'sub',
+  SUP: 'sup',
+  CODE: 'code',
+}
+
+const REMOVED_TAGS = ['SCRIPT', 'STYLE', 'META', 'LINK', 'TITLE', 'TEMPLATE']
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+function escapeAttribute(text: string): string {
+  return escapeText(text).replace(/"/g, '&quot;')
+}
+
+function isBlockElement(el: Element): boolean {
+  return BLOCK_TAGS.includes(el.tagName)
+}
+
+function containsBlockElements(el: Element): boolean {
+  return [...el.children].some(
+    (child) => isBlockElement(child) || containsBlockElements(child),
+  )
+}
+
+/**
+ * Wrap the markup for elements that only define their formatting using
+ * inline styles, as done by Google Docs.
+ */
+function wrapStyled(el: HTMLElement, html: string): string {
+  const weight = el.style?.fontWeight
+  const isBold =
+    weight === 'bold' || (!!weight && Number.parseInt(weight) >= 600)
+  const isItalic = el.style?.fontStyle === 'italic'
+  let result = html
+  if (isItalic) {
+    result = `<em>${result}</em>`
+  }
+  if (isBold) {
+    result = `<strong>${result}</strong>`
+  }
+  return result
+}
+
+/**
+ * Sanitize the inline contents of the given nodes.
+ */
+function sanitizeInline(nodes: Node[]): string {
+  return nodes
+    .map((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return escapeText((node.textContent || '').replace(/\s+/g, ' '))
+      }
+
+      if (
+        !(node instanceof HTMLElement) ||
+        REMOVED_TAGS.includes(node.tagName)
+      ) {
+        return ''
+      }
+
+      if (node.tagName === 'BR') {
+        return '<br>'
+      }
+
+      const content = sanitizeInline([...node.childNodes])
+      if (!content) {
+        return ''
+      }
+
+      if (node.tagName === 'A') {
+        const href = node.getAttribute('href')
+        if (href && isSafeUrl(href)) {
+          return `<a href="${escapeAttribute(href)}">${content}</a>`
+        }
+        return content
+      }
+
+      const tag = INLINE_TAGS[node.tagName]
+
+      // Google Docs wraps the entire document in a <b> element with normal
+      // font weight.
+      if (tag && node.style?.fontWeight !== 'normal') {
+        return `<${tag}>${content}</${tag}>`
+      }
+
+      return wrapStyled(node, content)
+    })
+    .join('')
+}
+
+function sanitizeList(el: Element): string {
+  const tag = el.tagName === 'OL' ? 'ol' : 'ul'
+  const items = [...el.children]
+    .filter((child) => child.tagName === 'LI')
+    .map((li) => {
+      const nested = [...li.children].filter(
+        (child) => child.tagName === 'UL' || child.tagName === 'OL',
+      )
+      const inline = [...li.childNodes].filter(
+        (child) => !nested.includes(child as Element),
+      )
+      return `<li>${sanitizeInline(inline).trim()}${nested.map(sanitizeList).join('')}</li>`
+    })
+  return `<${tag}>${items.join('')}</${tag}>`
+}
+
+function sanitizeTable(el: Element): string {
+  const rows = [...el.querySelectorAll('tr')].map((tr) =>
+    [...tr.children]
+      .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map((cell) => sanitizeInline([...cell.childNodes]).trim()),
+  )
+  const firstRow = el.querySelector('tr')
+  const hasHeader =
+    !!firstRow &&
+    (firstRow.parentElement?.tagName === 'THEAD' ||
+      [...firstRow.children].every((cell) => cell.tagName === 'TH'))
+
+  return serializeTable({ hasHeader, rows })
+}
+
+function isEmptyMarkup(html: string): boolean {
+  return !html
+    .replace(/<br>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .trim()
+}
+
+/**
+ * Split the pasted HTML into fragments.
+ */
+export function splitPastedHtml(html: string): HtmlPasteFragment[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const fragments: HtmlPasteFragment[] = []
+
+  // Consecutive inline nodes are collected into a single paragraph.
+  let inline: Node[] = []
+
+  const flushInline = () => {
+    const markup = sanitizeInline(inline).trim()
+    inline = []
+    if (!isEmptyMarkup(markup)) {
+      fragments.push({ type: 'paragraph', html: markup })
+    }
+  }
+
+  const walk = (nodes: Node[]) => {
+    nodes.forEach((node) => {
+      if (node instanceof Element && REMOVED_TAGS.includes(node.tagName)) {
+        return
+      }
+
+      if (!(node instanceof Element)) {
+        if (node.nodeType === Node.TEXT_NODE) {
+          inline.push(node)
+        }
+        return
+      }
+
+      if (!isBlockElement(node)) {
+        // Containers such as the wrapping <b> element of Google Docs.
+        if (containsBlockElements(node)) {
+          flushInline()
+          walk([...node.childNodes])
+        } else {
+          inline.push(node)
+        }
+        return
+      }
+
+      flushInline()
+      const tag = node.tagName
+
+      if (/^H[1-6]$/.test(tag)) {
+        const text = (node.textContent || '').replace(/\s+/g, ' ').trim()
+        if (text) {
+          fragments.push({
+            type: 'heading',
+            level: Number.parseInt(tag.charAt(1)),
+            text,
+          })
+        }
+      } else if (tag === 'UL' || tag === 'OL') {
+        if (node.querySelector('li')) {
+          fragments.push({
+            type: 'list',
+            ordered: tag === 'OL',
+            html: sanitizeList(node),
+          })
+        }
+      } else if (tag === 'TABLE') {
+        if (node.querySelector('td, th')) {
+          fragments.push({ type: 'table', html: sanitizeTable(node) })
+        }
+      } else if (tag === 'IMG') {
+        const src = node.getAttribute('src')
+        if (src) {
+          fragments.push({
+            type: 'image',
+            src,
+            alt: node.getAttribute('alt') || '',
+          })
+        }
+      } else if (containsBlockElements(node)) {
+        walk([...node.childNodes])
+      } else if (tag !== 'HR') {
+        inline.push(...node.childNodes)
+        flushInline()
+      }
+    })
+  }
+
+  walk([...doc.body.childNodes])
+  flushInline()
+
+  return fragments
+}
+
+/**
+ * Get the markup of a fragment, used when the fragment is added as text.
+ */
+export function getFragmentMarkup(fragment: HtmlPasteFragment): string {
+  switch (fragment.type) {
+    case 'heading':
+      return `<h${fragment.level}>${escapeText(fragment.text)}</h${fragment.level}>`
+    case 'paragraph':
+    case 'list':
+    case 'table':
+      return fragment.html
+    case 'image':
+      return `<img src="${escapeAttribute(fragment.src)}" alt="${escapeAttribute(fragment.alt)}">`
+  }
+}
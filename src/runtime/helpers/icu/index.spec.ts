@@ -0,0 +1,36 @@
+import { test, describe, expect } from 'vitest'
+import { formatMessage } from '.'
+
+describe('formatMessage', () => {
+  test('Interpolates params', () => {
+    expect(
+      formatMessage(
+        'Hello {name}, you have {count} items',
+        { name: 'Ana', count: 3 },
+        'es',
+      ),
+    ).toEqual('Hello Ana, you have 3 items')
+    expect(formatMessage('Hello {name}', {}, 'en')).toEqual('Hello {name}')
+  })
+
+  test('Selects the plural form of the language', () => {
+    const message =
+      '{count, plural, =0 {Brak bloków} one {# blok} few {# bloki} many {# bloków} other {# bloku}}'
+    expect(formatMessage(message, { count: 0 }, 'pl')).toEqual('Brak bloków')
+    expect(formatMessage(message, { count: 1 }, 'pl')).toEqual('1 blok')
+    expect(formatMessage(message, { count: 3 }, 'pl')).toEqual('3 bloki')
+    expect(formatMessage(message, { count: 5 }, 'pl')).toEqual('5 bloków')
+    expect(formatMessage(message, { count: 1.5 }, 'pl')).toEqual('1.5 bloku')
+  })
+
+  test('Supports nested arguments and unknown langcodes', () => {
+    const message =
+      '{count, plural, one {# Block von {name}} other {# Blöcke von {name}}}!'
+    expect(formatMessage(message, { count: 2, name: 'Ana' }, 'gsw_CH')).toEqual(
+      '2 Blöcke von Ana!',
+    )
+    expect(formatMessage(message, { count: 1, name: 'Ana' }, 'xx')).toEqual(
+      '1 Block von Ana!',
+    )
+  })
+})
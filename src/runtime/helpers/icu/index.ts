@@ -0,0 +1,150 @@
+/**
+ * A minimal formatter for ICU style messages.
+ *
+ * Supports interpolation ("Hello {name}") and pluralization
+ * ("{count, plural, =0 {No blocks} one {# block} other {# blocks}}").
+ */
+
+export type MessageParams = Record<string, string | number>
+
+const pluralRules: Record<string, Intl.PluralRules> = {}
+
+/**
+ * Get the plural rules for the language, falling back to English for
+ * unsupported langcodes such as "gsw_CH".
+ */
+function getPluralRules(language: string): Intl.PluralRules {
+  if (!pluralRules[language]) {
+    try {
+      pluralRules[language] = new Intl.PluralRules(language.replace('_', '-'))
+    } catch {
+      pluralRules[language] = new Intl.PluralRules('en')
+    }
+  }
+  return pluralRules[language]
+}
+
+/**
+ * Find the index of the closing brace matching the opening brace at the given
+ * index.
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') {
+      depth++
+    } else if (text[i] === '}') {
+      depth--
+      if (depth === 0) {
+        return i
+      }
+    }
+  }
+  return -1
+}
+
+/**
+ * Parse the options of a plural argument, e.g. "=0 {None} other {# items}".
+ */
+function parsePluralOptions(text: string): Record<string, string> {
+  const options: Record<string, string> = {}
+  let i = 0
+  while (i < text.length) {
+    const start = text.indexOf('{', i)
+    if (start === -1) {
+      break
+    }
+    const end = findClosingBrace(text, start)
+    if (end === -1) {
+      break
+    }
+    const selector = text.slice(i, start).trim()
+    if (selector) {
+      options[selector] = text.slice(start + 1, end)
+    }
+    i = end + 1
+  }
+  return options
+}
+
+/**
+ * Replace "#" with the count, except inside nested arguments.
+ */
+function replaceCount(text: string, count: string): string {
+  let result = ''
+  let depth = 0
+  for (const char of text) {
+    if (char === '{') {
+      depth++
+    } else if (char === '}') {
+      depth--
+    }
+    result += char === '#' && depth === 0 ? count : char
+  }
+  return result
+}
+
+function formatArgument(
+  argument: string,
+  params: MessageParams,
+  language: string,
+): string | null {
+  const parts = argument.split(',')
+  const name = parts[0].trim()
+  const value = params[name]
+  if (value === undefined) {
+    return null
+  }
+
+  if (parts.length < 3) {
+    return String(value)
+  }
+
+  if (parts[1].trim() !== 'plural') {
+    return null
+  }
+
+  const count = Number(value)
+  const options = parsePluralOptions(parts.slice(2).join(','))
+  const message =
+    options['=' + count] ??
+    options[getPluralRules(language).select(count)] ??
+    options.other
+  if (message === undefined) {
+    return null
+  }
+  return formatMessage(replaceCount(message, String(value)), params, language)
+}
+
+/**
+ * Format the message with the given params.
+ *
+ * Arguments whose param is missing are left as they are.
+ */
+export function formatMessage(
+  message: string,
+  params: MessageParams,
+  language: string,
+): string {
+  let result = ''
+  let i = 0
+  while (i < message.length) {
+    const start = message.indexOf('{', i)
+    if (start === -1) {
+      break
+    }
+    const end = findClosingBrace(message, start)
+    if (end === -1) {
+      break
+    }
+    const formatted = formatArgument(
+      message.slice(start + 1, end),
+      params,
+      language,
+    )
+    result +=
+      message.slice(i, start) + (formatted ?? message.slice(start, end + 1))
+    i = end + 1
+  }
+  return result + message.slice(i)
+}
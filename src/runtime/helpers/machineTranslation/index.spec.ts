@@ -0,0 +1,62 @@
+import { test, describe, expect } from 'vitest'
+import {
+  getTranslationBatches,
+  machineTranslate,
+  type MachineTranslationItem,
+  type MachineTranslationProvider,
+} from '.'
+
+describe('getTranslationBatches', () => {
+  test('Limits the number of items and the combined length', () => {
+    const items = ['a', 'bb', 'ccc', 'dddd', 'e'].map((value) => ({ value }))
+    expect(
+      getTranslationBatches(items, 2, 100).map((v) => v.map((i) => i.value)),
+    ).toEqual([['a', 'bb'], ['ccc', 'dddd'], ['e']])
+    expect(
+      getTranslationBatches(items, 10, 5).map((v) => v.map((i) => i.value)),
+    ).toEqual([['a', 'bb'], ['ccc'], ['dddd', 'e']])
+  })
+
+  test('Puts values longer than the limit in their own batch', () => {
+    const items = ['a', 'long value', 'b'].map((value) => ({ value }))
+    expect(
+      getTranslationBatches(items, 10, 3).map((v) => v.map((i) => i.value)),
+    ).toEqual([['a'], ['long value'], ['b']])
+  })
+})
+
+describe('machineTranslate', () => {
+  const items: MachineTranslationItem[] = [
+    { uuid: '1', fieldName: 'title', format: 'plain', value: 'Hello' },
+    { uuid: '1', fieldName: 'text', format: 'markup', value: '<p>World</p>' },
+    { uuid: '2', fieldName: 'title', format: 'plain', value: '' },
+    { uuid: '3', fieldName: 'title', format: 'plain', value: 'Goodbye' },
+  ]
+
+  test('Translates the values in batches per format', async () => {
+    const calls: string[][] = []
+    const provider: MachineTranslationProvider = (texts, format) => {
+      calls.push(texts)
+      return Promise.resolve(texts.map((text) => `[${format}] ${text}`))
+    }
+    const progress: number[] = []
+    const results = await machineTranslate(items, provider, {
+      maxItems: 1,
+      onProgress: (translated) => progress.push(translated),
+    })
+    expect(calls).toEqual([['Hello'], ['Goodbye'], ['<p>World</p>']])
+    expect(progress).toEqual([1, 2, 3])
+    expect(results).toEqual([
+      { uuid: '1', fieldName: 'title', fieldValue: '[plain] Hello' },
+      { uuid: '3', fieldName: 'title', fieldValue: '[plain] Goodbye' },
+      { uuid: '1', fieldName: 'text', fieldValue: '[markup] <p>World</p>' },
+    ])
+  })
+
+  test('Throws if the provider returns the wrong number of texts', async () => {
+    const provider: MachineTranslationProvider = () => Promise.resolve([])
+    await expect(machineTranslate(items, provider)).rejects.toThrow(
+      'Expected 2 translations, but received 0.',
+    )
+  })
+})
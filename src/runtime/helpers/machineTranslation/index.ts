@@ -0,0 +1,130 @@
+/**
+ * Helpers to machine translate editable field values in batches.
+ */
+
+export type MachineTranslationFormat = 'plain' | 'markup'
+
+export type MachineTranslationItem = {
+  uuid: string
+  fieldName: string
+  format: MachineTranslationFormat
+
+  /**
+   * The value to translate.
+   */
+  value: string
+}
+
+export type MachineTranslationResult = {
+  uuid: string
+  fieldName: string
+  fieldValue: string
+}
+
+/**
+ * Translates the given texts and returns the translations in the same order.
+ */
+export type MachineTranslationProvider = (
+  texts: string[],
+  format: MachineTranslationFormat,
+) => Promise<string[]>
+
+export type MachineTranslationOptions = {
+  /**
+   * The maximum number of texts per batch.
+   */
+  maxItems?: number
+
+  /**
+   * The maximum combined length of the texts per batch. A single text longer
+   * than this is sent in its own batch.
+   */
+  maxLength?: number
+
+  /**
+   * Called after each batch with the number of translated items.
+   */
+  onProgress?: (translated: number, total: number) => void
+}
+
+/**
+ * Split the items into batches, limited by the number of items and the
+ * combined length of their values.
+ */
+export function getTranslationBatches<T extends { value: string }>(
+  items: T[],
+  maxItems: number,
+  maxLength: number,
+): T[][] {
+  const batches: T[][] = []
+  let batch: T[] = []
+  let length = 0
+
+  for (const item of items) {
+    if (
+      batch.length &&
+      (batch.length >= maxItems || length + item.value.length > maxLength)
+    ) {
+      batches.push(batch)
+      batch = []
+      length = 0
+    }
+    batch.push(item)
+    length += item.value.length
+  }
+
+  if (batch.length) {
+    batches.push(batch)
+  }
+
+  return batches
+}
+
+/**
+ * Translate the values of the items using the provider.
+ *
+ * Items without a value are skipped. Plain and markup values are sent in
+ * separate batches, so that the provider can handle markup accordingly.
+ */
+export async function machineTranslate(
+  items: MachineTranslationItem[],
+  provider: MachineTranslationProvider,
+  options: MachineTranslationOptions = {},
+): Promise<MachineTranslationResult[]> {
+  const maxItems = options.maxItems ?? 50
+  const maxLength = options.maxLength ?? 10000
+  const filtered = items.filter((item) => item.value.trim())
+  const results: MachineTranslationResult[] = []
+
+  const formats: MachineTranslationFormat[] = ['plain', 'markup']
+  for (const format of formats) {
+    const batches = getTranslationBatches(
+      filtered.filter((item) => item.format === format),
+      maxItems,
+      maxLength,
+    )
+    for (const batch of batches) {
+      const translations = await provider(
+        batch.map((item) => item.value),
+        format,
+      )
+      if (translations.length !== batch.length) {
+        throw new Error(
+          `Expected ${batch.length} translations, but received ${translations.length}.`,
+        )
+      }
+      batch.forEach((item, index) => {
+        results.push({
+          uuid: item.uuid,
+          fieldName: item.fieldName,
+          fieldValue: translations[index],
+        })
+      })
+      if (options.onProgress) {
+        options.onProgress(results.length, filtered.length)
+      }
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,264 @@
+// @vitest-environment happy-dom
+import { test, describe, expect } from 'vitest'
+import {
+  exportMarkdown,
+  importMarkdown,
+  parseFrontMatter,
+  parseMarkdown,
+} from '.'
+import type { MarkdownBundleMapping, MutatedField } from '../../types'
+
+const mappings: MarkdownBundleMapping[] = [
+  { element: 'heading', bundle: 'title', prop: 'title' },
+  { element: 'paragraph', bundle: 'text', prop: 'text' },
+  { element: 'list', bundle: 'text', prop: 'text' },
+  { element: 'image', bundle: 'image', prop: 'url' },
+]
+
+describe('parseMarkdown', () => {
+  test('Parses block and inline elements', () => {
+    const markdown = [
+      '# Title',
+      '',
+      'Some **bold** and *em* text with a [link](/foo)',
+      'and `code <b>`.  ',
+      'Second line.',
+      '',
+      '- One',
+      '- Two',
+      '  1. Nested',
+      '',
+      '> Quote',
+      '',
+      '```js',
+      'const a = 1',
+      '```',
+      '',
+      '![Alt](/image.jpg)',
+    ].join('\n')
+
+    expect(parseMarkdown(markdown)).toEqual([
+      { type: 'heading', level: 1, text: 'Title' },
+      {
+        type: 'paragraph',
+        html: 'Some <strong>bold</strong> and <em>em</em> text with a <a href="/foo">link</a> and <code>code &lt;b&gt;</code>.<br>Second line.',
+      },
+      {
+        type: 'list',
+        ordered: false,
+        html: '<ul><li>One</li><li>Two<ol><li>Nested</li></ol></li></ul>',
+      },
+      { type: 'blockquote', html: '<p>Quote</p>' },
+      { type: 'code', language: 'js', text: 'const a = 1' },
+      { type: 'image', src: '/image.jpg', alt: 'Alt' },
+    ])
+  })
+
+  test('Removes links and images with unsafe URLs', () => {
+    const markdown = [
+      '[Click](javascript:alert%281%29) [me](JavaScript:void0) [x](vbscript:msgbox)',
+      '![Tracker](data:image/svg+xml;base64,PHN2Zz4=) [ok](https://example.com)',
+      '',
+      '![Image](data:text/html,foo)',
+    ].join('\n')
+
+    expect(parseMarkdown(markdown)).toEqual([
+      {
+        type: 'paragraph',
+        html: 'Click me x Tracker <a href="https://example.com">ok</a>',
+      },
+      { type: 'paragraph', html: 'Image' },
+    ])
+  })
+})
+
+describe('parseFrontMatter', () => {
+  test('Parses scalars, lists and maps', () => {
+    const markdown = [
+      '---',
+      'title: My page',
+      'draft: true',
+      'blocks:',
+      '  - {"uuid":"1","bundle":"text","options":{}}',
+      'options:',
+      '  text: {"color":"red"}',
+      '---',
+      'Body',
+    ].join('\n')
+
+    expect(parseFrontMatter(markdown)).toEqual({
+      frontMatter: {
+        title: 'My page',
+        draft: true,
+        blocks: [{ uuid: '1', bundle: 'text', options: {} }],
+        options: { text: { color: 'red' } },
+      },
+      body: 'Body',
+    })
+  })
+})
+
+describe('exportMarkdown / importMarkdown', () => {
+  const fields: MutatedField[] = [
+    {
+      name: 'field_blocks',
+      entityType: 'content',
+      entityUuid: 'page',
+      list: [
+        { uuid: '1', bundle: 'title', props: { title: 'Hello' } },
+        {
+          uuid: '2',
+          bundle: 'container',
+          options: { spacing: 'large' },
+          props: {},
+        },
+      ],
+    },
+    {
+      name: 'field_items',
+      entityType: 'block',
+      entityUuid: '2',
+      list: [
+        {
+          uuid: '3',
+          bundle: 'text',
+          options: { color: 'red' },
+          props: { text: '<p>First <strong>bold</strong></p><p>Second</p>' },
+        },
+      ],
+    },
+  ]
+
+  test('Exports mapped blocks including nested blocks', () => {
+    expect(exportMarkdown([fields[0]], fields, {}, 'block', mappings)).toEqual(
+      [
+        '---',
+        'blocks:',
+        '  - {"uuid":"1","bundle":"title","options":{}}',
+        '  - {"uuid":"2","bundle":"container","options":{"spacing":"large"}}',
+        '  - {"uuid":"3","bundle":"text","options":{"color":"red"},"parent":"2","field":"field_items"}',
+        '---',
+        '',
+        '<!-- block:1 -->',
+        '## Hello',
+        '',
+        '<!-- block:3 -->',
+        'First **bold**',
+        '',
+        'Second',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  test('Exports options that have not been saved yet', () => {
+    const markdown = exportMarkdown(
+      [fields[0]],
+      fields,
+      { '3': { color: 'blue' } },
+      'block',
+      mappings,
+    )
+    expect(markdown).toContain(
+      '  - {"uuid":"3","bundle":"text","options":{"color":"blue"},"parent":"2","field":"field_items"}',
+    )
+  })
+
+  test('Imports exported Markdown as the same blocks', () => {
+    const markdown = exportMarkdown([fields[0]], fields, {}, 'block', mappings)
+    expect(importMarkdown(markdown, mappings)).toEqual([
+      { bundle: 'title', options: {}, props: { title: 'Hello' }, fields: {} },
+      {
+        bundle: 'container',
+        options: { spacing: 'large' },
+        props: {},
+        fields: {
+          field_items: [
+            {
+              bundle: 'text',
+              options: { color: 'red' },
+              props: {
+                text: '<p>First <strong>bold</strong></p><p>Second</p>',
+              },
+              fields: {},
+            },
+          ],
+        },
+      },
+    ])
+  })
+
+  test('Skips blocks without content and exported nested blocks', () => {
+    const empty: MutatedField[] = [
+      {
+        name: 'field_blocks',
+        entityType: 'content',
+        entityUuid: 'page',
+        list: [
+          { uuid: '1', bundle: 'container', props: {} },
+          { uuid: '2', bundle: 'text', props: { text: '' } },
+        ],
+      },
+    ]
+    expect(exportMarkdown(empty, empty, {}, 'block', mappings)).toEqual(
+      ['---', 'blocks:', '---', '', '', ''].join('\n'),
+    )
+  })
+
+  test('Imports nested blocks with an invalid parent as root blocks', () => {
+    const markdown = [
+      '---',
+      'blocks:',
+      '  - {"uuid":"1","bundle":"text","options":{},"parent":"2","field":"field_items"}',
+      '  - {"uuid":"2","bundle":"container","options":{},"parent":"1","field":"field_items"}',
+      '---',
+      '<!-- block:1 -->',
+      'Text',
+    ].join('\n')
+    expect(importMarkdown(markdown, mappings)).toEqual([
+      {
+        bundle: 'text',
+        options: {},
+        props: { text: '<p>Text</p>' },
+        fields: {},
+      },
+    ])
+  })
+
+  test('Imports unmarked elements as separate blocks', () => {
+    const markdown = [
+      '---',
+      'options:',
+      '  text: {"color":"blue"}',
+      '---',
+      '## Title',
+      '',
+      'Text',
+      '',
+      '> Quote',
+      '',
+      '![Alt](/image.jpg)',
+    ].join('\n')
+    expect(importMarkdown(markdown, mappings)).toEqual([
+      { bundle: 'title', options: {}, props: { title: 'Title' }, fields: {} },
+      {
+        bundle: 'text',
+        options: { color: 'blue' },
+        props: { text: '<p>Text</p>' },
+        fields: {},
+      },
+      {
+        bundle: 'text',
+        options: { color: 'blue' },
+        props: { text: '<blockquote><p>Quote</p></blockquote>' },
+        fields: {},
+      },
+      {
+        bundle: 'image',
+        options: {},
+        props: { url: '/image.jpg' },
+        fields: {},
+      },
+    ])
+  })
+})
@@ -0,0 +1,817 @@
+/**
+ * Helpers to export blocks as Markdown and to import Markdown as blocks.
+ *
+ * The exported document starts with a front matter containing the bundle and
+ * option values of every exported block. In the body, the content of each
+ * block is preceded by an HTML comment containing the UUID of the block, so
+ * that blocks spanning multiple Markdown elements (e.g. a text block with
+ * several paragraphs) are imported as a single block again. Nested blocks
+ * reference their parent block and field in the front matter.
+ *
+ * The front matter only supports a subset of YAML: Top level keys with a
+ * scalar or JSON value, lists of JSON values ("- value") and maps of JSON
+ * values ("key: value") indented below a key without a value.
+ */
+
+import type {
+  FieldListItem,
+  MarkdownBundleMapping,
+  MarkdownElement,
+  MutatedField,
+  MutatedOptions,
+} from '../../types'
+import { isSafeUrl } from '../url'
+
+export type MarkdownNode =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; html: string }
+  | { type: 'list'; ordered: boolean; html: string }
+  | { type: 'blockquote'; html: string }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'image'; src: string; alt: string }
+
+export type MarkdownFrontMatter = Record<string, unknown>
+
+/**
+ * A block entry in the front matter.
+ */
+export type MarkdownFrontMatterBlock = {
+  uuid: string
+  bundle: string
+  options: Record<string, string>
+
+  /**
+   * The UUID of the parent block, if the block is nested.
+   */
+  parent?: string
+
+  /**
+   * The name of the parent block's field that contains the block.
+   */
+  field?: string
+}
+
+/**
+ * A block created from Markdown.
+ */
+export type MarkdownImportedBlock = {
+  bundle: string
+  options: Record<string, string>
+  props: Record<string, any>
+  fields: Record<string, MarkdownImportedBlock[]>
+}
+
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)]) +(\S.*)$/
+const BLOCK_MARKER = /^<!--\s*block:\s*(\S+)\s*-->$/
+
+// Placeholder for code spans while parsing inline Markdown.
+const CODE_PLACEHOLDER = '\uE000'
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * Convert HTML markup to plain text.
+ */
+function htmlToText(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, ' ')
+    .replace(/<[^>]*>/g, '')
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+    .replace(/&quot;/g, '"')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1')
+}
+
+function parseScalar(value: string): unknown {
+  const trimmed = value.trim()
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    // Unquoted string.
+    return trimmed
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isFrontMatterBlock(value: unknown): value is MarkdownFrontMatterBlock {
+  return (
+    isObject(value) &&
+    typeof value.uuid === 'string' &&
+    typeof value.bundle === 'string' &&
+    (value.parent === undefined ||
+      (typeof value.parent === 'string' && typeof value.field === 'string'))
+  )
+}
+
+/**
+ * Split the front matter from the body of a Markdown document.
+ */
+export function parseFrontMatter(markdown: string): {
+  frontMatter: MarkdownFrontMatter
+  body: string
+} {
+  const normalized = markdown.replace(/\r\n?/g, '\n')
+  const match = normalized.match(/^---\n([\s\S]*?)\n---(?:\n|$)/)
+  if (!match) {
+    return { frontMatter: {}, body: normalized }
+  }
+
+  const frontMatter: MarkdownFrontMatter = {}
+  let currentKey: string | null = null
+
+  match[1].split('\n').forEach((line) => {
+    const trimmed = line.trim()
+    if (!trimmed || trimmed.startsWith('#')) {
+      return
+    }
+
+    if (!/^\s/.test(line)) {
+      const index = line.indexOf(':')
+      if (index === -1) {
+        currentKey = null
+        return
+      }
+      currentKey = line.slice(0, index).trim()
+      const value = line.slice(index + 1)
+      frontMatter[currentKey] = value.trim() ? parseScalar(value) : null
+      return
+    }
+
+    if (!currentKey) {
+      return
+    }
+
+    if (trimmed === '-' || trimmed.startsWith('- ')) {
+      const list = frontMatter[currentKey]
+      const item = parseScalar(trimmed.slice(1))
+      if (Array.isArray(list)) {
+        list.push(item)
+      } else {
+        frontMatter[currentKey] = [item]
+      }
+      return
+    }
+
+    const index = trimmed.indexOf(':')
+    if (index === -1) {
+      return
+    }
+    const map = frontMatter[currentKey]
+    const key = String(parseScalar(trimmed.slice(0, index)))
+    const value = parseScalar(trimmed.slice(index + 1))
+    if (isObject(map)) {
+      map[key] = value
+    } else {
+      frontMatter[currentKey] = { [key]: value }
+    }
+  })
+
+  return { frontMatter, body: normalized.slice(match[0].length) }
+}
+
+/**
+ * Serialize the front matter, including the delimiters.
+ */
+export function serializeFrontMatter(frontMatter: MarkdownFrontMatter): string {
+  const lines = Object.entries(frontMatter).flatMap(([key, value]) => {
+    if (Array.isArray(value)) {
+      return [`${key}:`, ...value.map((v) => `  - ${JSON.stringify(v)}`)]
+    } else if (isObject(value)) {
+      return [
+        `${key}:`,
+        ...Object.entries(value).map(
+          ([k, v]) => `  ${JSON.stringify(k)}: ${JSON.stringify(v)}`,
+        ),
+      ]
+    }
+    return [`${key}: ${JSON.stringify(value)}`]
+  })
+
+  return ['---', ...lines, '---'].join('\n')
+}
+
+/**
+ * Convert inline Markdown to HTML.
+ */
+export function renderInline(text: string): string {
+  const codes: string[] = []
+  const result = escapeHtml(text)
+    // Backslash escapes.
+    .replace(
+      /\\([\\`*_[\]#>+-])/g,
+      (_match, char: string) => `&#${char.charCodeAt(0)};`,
+    )
+    .replace(/`([^`]+)`/g, (_match, code: string) => {
+      codes.push(code)
+      return `${CODE_PLACEHOLDER}${codes.length - 1}${CODE_PLACEHOLDER}`
+    })
+    .replace(
+      /!\[([^\]]*)\]\(([^)\s]+)\)/g,
+      (_match, alt: string, src: string) =>
+        isSafeUrl(src) ? `<img src="${src}" alt="${alt}">` : alt,
+    )
+    .replace(
+      /\[([^\]]+)\]\(([^)\s]+)\)/g,
+      (_match, text: string, href: string) =>
+        isSafeUrl(href) ? `<a href="${href}">${text}</a>` : text,
+    )
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/\b__(?=\S)(.+?)(?<=\S)__\b/g, '<strong>$1</strong>')
+    .replace(/\*(?=\S)(.+?)(?<=\S)\*/g, '<em>$1</em>')
+    .replace(/\b_(?=\S)(.+?)(?<=\S)_\b/g, '<em>$1</em>')
+
+  return result.replace(
+    new RegExp(`${CODE_PLACEHOLDER}(\\d+)${CODE_PLACEHOLDER}`, 'g'),
+    (_match, index) => `<code>${codes[Number(index)]}</code>`,
+  )
+}
+
+function renderParagraph(lines: string[]): string {
+  return lines
+    .map((line, i) => {
+      const isLast = i === lines.length - 1
+      const hasBreak = !isLast && /(?: {2,}|\\)$/.test(line)
+      const text = renderInline(line.trim().replace(/\\$/, ''))
+      if (isLast) {
+        return text
+      }
+      return text + (hasBreak ? '<br>' : ' ')
+    })
+    .join('')
+}
+
+type ListItem = {
+  indent: number
+  ordered: boolean
+  text: string
+}
+
+function renderListItems(
+  items: ListItem[],
+  start: number,
+): { html: string; index: number } {
+  const indent = items[start].indent
+  const tag = items[start].ordered ? 'ol' : 'ul'
+  let html = ''
+  let index = start
+
+  while (index < items.length && items[index].indent >= indent) {
+    if (items[index].indent > indent) {
+      const nested = renderListItems(items, index)
+      html = html.endsWith('</li>')
+        ? html.slice(0, -5) + nested.html + '</li>'
+        : html + `<li>${nested.html}</li>`
+      index = nested.index
+      continue
+    }
+    html += `<li>${renderInline(items[index].text.trim())}</li>`
+    index++
+  }
+
+  return { html: `<${tag}>${html}</${tag}>`, index }
+}
+
+function renderList(lines: string[]): string {
+  const items = lines.reduce<ListItem[]>((acc, line) => {
+    const match = line.match(LIST_ITEM)
+    if (match) {
+      acc.push({
+        indent: match[1].length,
+        ordered: /\d/.test(match[2]),
+        text: match[3],
+      })
+    } else if (acc.length) {
+      // Continuation of the previous item.
+      acc[acc.length - 1].text += ' ' + line.trim()
+    }
+    return acc
+  }, [])
+
+  let html = ''
+  let index = 0
+  while (index < items.length) {
+    const result = renderListItems(items, index)
+    html += result.html
+    index = result.index
+  }
+  return html
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    /^\s*(?:```|~~~)/.test(line) ||
+    /^#{1,6}\s/.test(line) ||
+    /^\s*>/.test(line) ||
+    LIST_ITEM.test(line) ||
+    BLOCK_MARKER.test(line.trim())
+  )
+}
+
+/**
+ * Parse Markdown into a flat list of block level nodes.
+ */
+export function parseMarkdown(markdown: string): MarkdownNode[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+  const nodes: MarkdownNode[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const line = lines[i]
+    const trimmed = line.trim()
+
+    if (!trimmed || BLOCK_MARKER.test(trimmed)) {
+      i++
+      continue
+    }
+
+    const fence = line.match(/^\s*(```|~~~)\s*([\w-]*)/)
+    if (fence) {
+      const code: string[] = []
+      i++
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        code.push(lines[i])
+        i++
+      }
+      // Skip the closing fence.
+      i++
+      nodes.push({ type: 'code', language: fence[2], text: code.join('\n') })
+      continue
+    }
+
+    const heading = line.match(/^(#{1,6})\s(.*)$/)
+    if (heading) {
+      // Remove optional closing hashes.
+      const text = heading[2].trim().replace(/(?:^|\s)#+$/, '')
+      nodes.push({
+        type: 'heading',
+        level: heading[1].length,
+        text: htmlToText(renderInline(text)),
+      })
+      i++
+      continue
+    }
+
+    // Horizontal rules.
+    if (/^([-*_])(?:\s*\1){2,}$/.test(trimmed)) {
+      i++
+      continue
+    }
+
+    const image = trimmed.match(/^!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)$/)
+    if (image && isSafeUrl(image[2])) {
+      nodes.push({ type: 'image', alt: image[1], src: image[2] })
+      i++
+      continue
+    }
+
+    if (/^\s*>/.test(line)) {
+      const quote: string[] = []
+      while (i < lines.length && /^\s*>/.test(lines[i])) {
+        quote.push(lines[i].replace(/^\s*>\s?/, ''))
+        i++
+      }
+      nodes.push({
+        type: 'blockquote',
+        html: parseMarkdown(quote.join('\n')).map(getNodeMarkup).join(''),
+      })
+      continue
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const ordered = /^\s*\d/.test(line)
+      const listLines: string[] = []
+      while (
+        i < lines.length &&
+        lines[i].trim() &&
+        (LIST_ITEM.test(lines[i]) || /^\s/.test(lines[i]))
+      ) {
+        listLines.push(lines[i])
+        i++
+      }
+      nodes.push({ type: 'list', ordered, html: renderList(listLines) })
+      continue
+    }
+
+    const paragraph: string[] = [line]
+    i++
+    while (i < lines.length && lines[i].trim() && !isBlockStart(lines[i])) {
+      paragraph.push(lines[i])
+      i++
+    }
+    nodes.push({ type: 'paragraph', html: renderParagraph(paragraph) })
+  }
+
+  return nodes
+}
+
+/**
+ * Get the HTML markup of a node.
+ */
+export function getNodeMarkup(node: MarkdownNode): string {
+  switch (node.type) {
+    case 'heading':
+      return `<h${node.level}>${escapeHtml(node.text)}</h${node.level}>`
+    case 'paragraph':
+      return `<p>${node.html}</p>`
+    case 'list':
+      return node.html
+    case 'blockquote':
+      return `<blockquote>${node.html}</blockquote>`
+    case 'code':
+      return `<pre><code>${escapeHtml(node.text)}</code></pre>`
+    case 'image':
+      return `<img src="${escapeHtml(node.src)}" alt="${escapeHtml(node.alt)}">`
+  }
+}
+
+function inlineToMarkdown(nodes: Node[]): string {
+  return nodes
+    .map((node) => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        return escapeMarkdown((node.textContent || '').replace(/\s+/g, ' '))
+      }
+      if (!(node instanceof Element)) {
+        return ''
+      }
+
+      const content = inlineToMarkdown([...node.childNodes])
+      switch (node.tagName) {
+        case 'STRONG':
+        case 'B':
+          return content.trim() ? `**${content}**` : content
+        case 'EM':
+        case 'I':
+          return content.trim() ? `*${content}*` : content
+        case 'CODE':
+          return '`' + (node.textContent || '') + '`'
+        case 'A': {
+          const href = node.getAttribute('href')
+          return href ? `[${content}](${href})` : content
+        }
+        case 'IMG':
+          return `![${node.getAttribute('alt') || ''}](${node.getAttribute('src') || ''})`
+        case 'BR':
+          return '  \n'
+      }
+      return content
+    })
+    .join('')
+}
+
+function listToMarkdown(el: Element, depth: number): string {
+  const ordered = el.tagName === 'OL'
+  return [...el.children]
+    .filter((child) => child.tagName === 'LI')
+    .map((li, i) => {
+      const nested = [...li.children].filter(
+        (child) => child.tagName === 'UL' || child.tagName === 'OL',
+      )
+      const inline = [...li.childNodes].filter(
+        (child) => !nested.includes(child as Element),
+      )
+      const marker = ordered ? `${i + 1}.` : '-'
+      return [
+        '  '.repeat(depth) + marker + ' ' + inlineToMarkdown(inline).trim(),
+        ...nested.map((v) => listToMarkdown(v, depth + 1)),
+      ].join('\n')
+    })
+    .join('\n')
+}
+
+function nodesToMarkdown(nodes: Node[]): string {
+  const blocks: string[] = []
+
+  // Consecutive inline nodes are collected into a single paragraph.
+  let inline: Node[] = []
+  const flushInline = () => {
+    const text = inlineToMarkdown(inline).trim()
+    inline = []
+    if (text) {
+      blocks.push(text)
+    }
+  }
+
+  nodes.forEach((node) => {
+    if (!(node instanceof Element)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        inline.push(node)
+      }
+      return
+    }
+
+    const tag = node.tagName
+    if (/^H[1-6]$/.test(tag)) {
+      flushInline()
+      const text = inlineToMarkdown([...node.childNodes]).trim()
+      if (text) {
+        blocks.push('#'.repeat(Number.parseInt(tag.charAt(1))) + ' ' + text)
+      }
+    } else if (tag === 'UL' || tag === 'OL') {
+      flushInline()
+      blocks.push(listToMarkdown(node, 0))
+    } else if (tag === 'BLOCKQUOTE') {
+      flushInline()
+      blocks.push(
+        nodesToMarkdown([...node.childNodes])
+          .split('\n')
+          .map((line) => (line ? `> ${line}` : '>'))
+          .join('\n'),
+      )
+    } else if (tag === 'PRE') {
+      flushInline()
+      blocks.push(
+        '```\n' + (node.textContent || '').replace(/\n$/, '') + '\n```',
+      )
+    } else if (tag === 'HR') {
+      flushInline()
+      blocks.push('---')
+    } else if (
+      ['P', 'DIV', 'SECTION', 'ARTICLE', 'FIGURE', 'TABLE'].includes(tag)
+    ) {
+      flushInline()
+      const text = nodesToMarkdown([...node.childNodes])
+      if (text) {
+        blocks.push(text)
+      }
+    } else {
+      inline.push(node)
+    }
+  })
+
+  flushInline()
+
+  return blocks.join('\n\n')
+}
+
+/**
+ * Convert HTML markup to Markdown.
+ */
+export function htmlToMarkdown(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return nodesToMarkdown([...doc.body.childNodes])
+}
+
+function renderBlockContent(
+  mapping: MarkdownBundleMapping,
+  value: unknown,
+): string {
+  if (value === undefined || value === null || value === '') {
+    return ''
+  }
+
+  switch (mapping.element) {
+    case 'heading': {
+      const text = htmlToText(String(value))
+      return text ? '#'.repeat(mapping.level || 2) + ' ' + text : ''
+    }
+    case 'code':
+      return '```\n' + String(value).replace(/\n$/, '') + '\n```'
+    case 'image': {
+      const image = isObject(value) ? value : { src: value }
+      const src = image.src || image.url
+      const alt = typeof image.alt === 'string' ? image.alt : ''
+      return typeof src === 'string' && src
+        ? `![${escapeMarkdown(alt)}](${src})`
+        : ''
+    }
+    case 'blockquote':
+      return htmlToMarkdown(String(value))
+        .split('\n')
+        .map((line) => (line ? `> ${line}` : '>'))
+        .join('\n')
+  }
+
+  return htmlToMarkdown(String(value))
+}
+
+/**
+ * Export the blocks of the given fields as Markdown.
+ *
+ * Nested blocks are exported in document order after the content of their
+ * parent block. Blocks without a mapping are only listed in the front matter,
+ * if they contain exported nested blocks. The options include changes that
+ * have not been saved yet.
+ */
+export function exportMarkdown(
+  rootFields: MutatedField[],
+  fields: MutatedField[],
+  mutatedOptions: MutatedOptions,
+  itemEntityType: string,
+  mappings: MarkdownBundleMapping[],
+  frontMatter: MarkdownFrontMatter = {},
+): string {
+  const blocks: MarkdownFrontMatterBlock[] = []
+  const body: string[] = []
+
+  const visit = (item: FieldListItem, parent?: string, field?: string) => {
+    const index = blocks.length
+    blocks.push({
+      uuid: item.uuid,
+      bundle: item.bundle,
+      options: {
+        ...(item.options || {}),
+        ...(mutatedOptions[item.uuid] || {}),
+      },
+      ...(parent ? { parent, field } : {}),
+    })
+
+    const mapping = mappings.find((v) => v.bundle === item.bundle)
+    const content = mapping
+      ? renderBlockContent(mapping, item.props?.[mapping.prop])
+      : ''
+    if (content) {
+      body.push(`<!-- block:${item.uuid} -->\n${content}`)
+    }
+
+    fields
+      .filter(
+        (v) => v.entityType === itemEntityType && v.entityUuid === item.uuid,
+      )
+      .forEach((v) =>
+        v.list.forEach((child) => visit(child, item.uuid, v.name)),
+      )
+
+    // Remove blocks without content and without exported nested blocks.
+    if (!content && blocks.length === index + 1) {
+      blocks.splice(index, 1)
+    }
+  }
+
+  rootFields.forEach((field) => field.list.forEach((item) => visit(item)))
+
+  return (
+    serializeFrontMatter({ ...frontMatter, blocks }) +
+    '\n\n' +
+    body.join('\n\n') +
+    '\n'
+  )
+}
+
+function findMapping(
+  node: MarkdownNode,
+  mappings: MarkdownBundleMapping[],
+): MarkdownBundleMapping | undefined {
+  return mappings.find(
+    (v) =>
+      v.element === node.type &&
+      (node.type !== 'heading' || !v.level || v.level === node.level),
+  )
+}
+
+function getMappedValue(
+  element: MarkdownElement,
+  nodes: MarkdownNode[],
+): string {
+  const first = nodes[0]
+  if (element === 'heading' && first.type === 'heading') {
+    return first.text
+  } else if (element === 'code' && first.type === 'code') {
+    return first.text
+  } else if (element === 'image' && first.type === 'image') {
+    return first.src
+  }
+  return nodes.map(getNodeMarkup).join('')
+}
+
+function toOptions(value: unknown): Record<string, string> {
+  if (!isObject(value)) {
+    return {}
+  }
+  return Object.entries(value).reduce<Record<string, string>>(
+    (acc, [key, v]) => {
+      if (v !== undefined && v !== null) {
+        acc[key] = typeof v === 'string' ? v : JSON.stringify(v)
+      }
+      return acc
+    },
+    {},
+  )
+}
+
+/**
+ * Create blocks from a Markdown document.
+ *
+ * Content following a block marker of a block listed in the front matter is
+ * imported as a single block using the bundle and options of the entry.
+ * Entries referencing a parent entry are added to the field of the parent
+ * block, which is created even if it has no content. All other elements are
+ * imported as separate blocks. Their options can be defined per bundle using
+ * the "options" key in the front matter.
+ */
+export function importMarkdown(
+  markdown: string,
+  mappings: MarkdownBundleMapping[],
+): MarkdownImportedBlock[] {
+  const { frontMatter, body } = parseFrontMatter(markdown)
+  const entries = Array.isArray(frontMatter.blocks)
+    ? frontMatter.blocks.filter(isFrontMatterBlock)
+    : []
+  const bundleOptions = isObject(frontMatter.options) ? frontMatter.options : {}
+  const fallback = mappings.find((v) => v.element === 'paragraph')
+
+  // Split the body at the block markers.
+  const segments = body
+    .split('\n')
+    .reduce<{ uuid?: string; lines: string[] }[]>(
+      (acc, line) => {
+        const marker = line.trim().match(BLOCK_MARKER)
+        if (marker) {
+          acc.push({ uuid: marker[1], lines: [] })
+        } else {
+          acc[acc.length - 1].lines.push(line)
+        }
+        return acc
+      },
+      [{ lines: [] }],
+    )
+
+  const blocks: MarkdownImportedBlock[] = []
+  const created: Record<string, MarkdownImportedBlock> = {}
+
+  // Get the block of a front matter entry, creating it and its parents.
+  const getEntryBlock = (index: number): MarkdownImportedBlock => {
+    const entry = entries[index]
+    const existing = created[entry.uuid]
+    if (existing) {
+      return existing
+    }
+
+    const block: MarkdownImportedBlock = {
+      bundle: entry.bundle,
+      options: toOptions(entry.options),
+      props: {},
+      fields: {},
+    }
+    created[entry.uuid] = block
+
+    // Only parents listed before the entry are valid, to prevent cycles.
+    const parentIndex = entries.findIndex((v) => v.uuid === entry.parent)
+    if (entry.field && parentIndex !== -1 && parentIndex < index) {
+      const parent = getEntryBlock(parentIndex)
+      parent.fields[entry.field] = [
+        ...(parent.fields[entry.field] || []),
+        block,
+      ]
+    } else {
+      blocks.push(block)
+    }
+    return block
+  }
+
+  segments.forEach((segment) => {
+    const nodes = parseMarkdown(segment.lines.join('\n'))
+    if (!nodes.length) {
+      return
+    }
+
+    const entryIndex = entries.findIndex((v) => v.uuid === segment.uuid)
+    const entryMapping =
+      entryIndex !== -1
+        ? mappings.find((v) => v.bundle === entries[entryIndex].bundle)
+        : undefined
+    if (entryMapping) {
+      getEntryBlock(entryIndex).props[entryMapping.prop] = getMappedValue(
+        entryMapping.element,
+        nodes,
+      )
+      return
+    }
+
+    nodes.forEach((node) => {
+      const mapping = findMapping(node, mappings)
+      const target = mapping || (node.type !== 'image' ? fallback : undefined)
+      if (!target) {
+        return
+      }
+      blocks.push({
+        bundle: target.bundle,
+        options: toOptions(bundleOptions[target.bundle]),
+        props: {
+          [target.prop]: mapping
+            ? getMappedValue(mapping.element, [node])
+            : getNodeMarkup(node),
+        },
+        fields: {},
+      })
+    })
+  })
+
+  return blocks
+}
@@ -0,0 +1,68 @@
+import { test, describe, expect } from 'vitest'
+import { clampFocalPoint, getDefaultCrop, moveCrop, resizeCrop } from '.'
+
+describe('clampFocalPoint', () => {
+  test('Keeps the focal point inside the image', () => {
+    expect(clampFocalPoint({ x: -0.5, y: 1.5 })).toEqual({ x: 0, y: 1 })
+    expect(clampFocalPoint({ x: 0.3, y: 0.7 })).toEqual({ x: 0.3, y: 0.7 })
+  })
+})
+
+describe('getDefaultCrop', () => {
+  test('Uses the full height for narrower aspect ratios', () => {
+    // A square crop of a 2:1 image.
+    expect(getDefaultCrop(1, 2, { x: 0.5, y: 0.5 })).toEqual({
+      x: 0.25,
+      y: 0,
+      width: 0.5,
+      height: 1,
+    })
+  })
+
+  test('Uses the full width for wider aspect ratios', () => {
+    // A 2:1 crop of a square image.
+    expect(getDefaultCrop(2, 1, { x: 0.5, y: 0.5 })).toEqual({
+      x: 0,
+      y: 0.25,
+      width: 1,
+      height: 0.5,
+    })
+  })
+
+  test('Centers the crop on the focal point inside the image', () => {
+    expect(getDefaultCrop(1, 2, { x: 0.4, y: 0.5 }).x).toBeCloseTo(0.15)
+    expect(getDefaultCrop(1, 2, { x: 0.9, y: 0.5 }).x).toEqual(0.5)
+    expect(getDefaultCrop(1, 2, { x: 0.1, y: 0.5 }).x).toEqual(0)
+  })
+})
+
+describe('moveCrop', () => {
+  test('Keeps the crop inside the image', () => {
+    const crop = { x: 0.25, y: 0, width: 0.5, height: 1 }
+    expect(moveCrop(crop, 0.1, 0.1)).toEqual({ ...crop, x: 0.35 })
+    expect(moveCrop(crop, 1, 0)).toEqual({ ...crop, x: 0.5 })
+    expect(moveCrop(crop, -1, 0)).toEqual({ ...crop, x: 0 })
+  })
+})
+
+describe('resizeCrop', () => {
+  test('Keeps the aspect ratio', () => {
+    const crop = { x: 0, y: 0, width: 0.5, height: 1 }
+    expect(resizeCrop(crop, 0.25, 1, 2)).toEqual({
+      x: 0,
+      y: 0,
+      width: 0.25,
+      height: 0.5,
+    })
+  })
+
+  test('Limits the size to the bounds of the image', () => {
+    const crop = { x: 0.1, y: 0.5, width: 0.1, height: 0.2 }
+    expect(resizeCrop(crop, 1, 1, 2)).toEqual({
+      x: 0.1,
+      y: 0.5,
+      width: 0.25,
+      height: 0.5,
+    })
+  })
+})
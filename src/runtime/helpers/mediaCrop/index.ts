@@ -0,0 +1,92 @@
+/**
+ * Helpers for editing the focal point and crops of an image.
+ *
+ * All positions and sizes are relative to the size of the original image and
+ * between 0 and 1. The image ratio is the width of the image divided by its
+ * height.
+ */
+
+import type { MediaCropRect, MediaFocalPoint } from '../../types'
+
+/**
+ * The minimum relative width or height of a crop.
+ */
+const MIN_CROP_SIZE = 0.05
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(Math.max(value, min), max)
+}
+
+/**
+ * Clamp the focal point to the bounds of the image.
+ */
+export function clampFocalPoint(point: MediaFocalPoint): MediaFocalPoint {
+  return { x: clamp(point.x, 0, 1), y: clamp(point.y, 0, 1) }
+}
+
+/**
+ * Get the relative height of a crop with the given relative width.
+ */
+function getCropHeight(
+  width: number,
+  ratio: number,
+  imageRatio: number,
+): number {
+  return (width * imageRatio) / ratio
+}
+
+/**
+ * Get the largest crop with the given aspect ratio, centered on the focal
+ * point as far as possible.
+ */
+export function getDefaultCrop(
+  ratio: number,
+  imageRatio: number,
+  focalPoint: MediaFocalPoint,
+): MediaCropRect {
+  const width = ratio > imageRatio ? 1 : ratio / imageRatio
+  const height = getCropHeight(width, ratio, imageRatio)
+
+  return {
+    x: clamp(focalPoint.x - width / 2, 0, 1 - width),
+    y: clamp(focalPoint.y - height / 2, 0, 1 - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * Move the crop by the given relative distance, keeping it inside the image.
+ */
+export function moveCrop(
+  crop: MediaCropRect,
+  dx: number,
+  dy: number,
+): MediaCropRect {
+  return {
+    ...crop,
+    x: clamp(crop.x + dx, 0, 1 - crop.width),
+    y: clamp(crop.y + dy, 0, 1 - crop.height),
+  }
+}
+
+/**
+ * Resize the crop to the given relative width, keeping the aspect ratio and
+ * the top left corner.
+ */
+export function resizeCrop(
+  crop: MediaCropRect,
+  width: number,
+  ratio: number,
+  imageRatio: number,
+): MediaCropRect {
+  // The largest width that still fits in the image.
+  const maxWidth = Math.min(1 - crop.x, ((1 - crop.y) * ratio) / imageRatio)
+  const newWidth = clamp(width, Math.min(MIN_CROP_SIZE, maxWidth), maxWidth)
+
+  return {
+    ...crop,
+    width: newWidth,
+    height: getCropHeight(newWidth, ratio, imageRatio),
+  }
+}
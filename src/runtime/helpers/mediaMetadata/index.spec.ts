@@ -0,0 +1,54 @@
+import { test, describe, expect } from 'vitest'
+import { getChangedMediaMetadata, isMissingAlt } from '.'
+import type { MediaMetadataItem } from '../../types'
+
+const image: MediaMetadataItem = {
+  mediaId: '1',
+  label: 'image.jpg',
+  requiresAlt: true,
+  alt: 'A cat',
+  caption: '',
+  credit: '',
+  uuids: ['a'],
+}
+
+const video: MediaMetadataItem = {
+  mediaId: '2',
+  label: 'Video',
+  requiresAlt: false,
+  alt: '',
+  caption: 'A dog',
+  credit: '',
+  uuids: ['b'],
+}
+
+describe('isMissingAlt', () => {
+  test('Only reports media that require an alt text', () => {
+    expect(isMissingAlt(image)).toBe(false)
+    expect(isMissingAlt(video)).toBe(false)
+    expect(isMissingAlt({ ...image, alt: '  ' })).toBe(true)
+  })
+
+  test('Uses the edited values', () => {
+    expect(isMissingAlt(image, { alt: '', caption: '', credit: '' })).toBe(true)
+  })
+})
+
+describe('getChangedMediaMetadata', () => {
+  test('Returns the values of changed media', () => {
+    expect(
+      getChangedMediaMetadata([image, video], {
+        '1': { alt: 'A cat', caption: 'Caption', credit: '' },
+        '2': { alt: '', caption: 'A dog', credit: '' },
+      }),
+    ).toEqual([{ mediaId: '1', alt: 'A cat', caption: 'Caption', credit: '' }])
+  })
+
+  test('Ignores edits of media that are not on the page', () => {
+    expect(
+      getChangedMediaMetadata([image], {
+        '3': { alt: 'Foo', caption: '', credit: '' },
+      }),
+    ).toEqual([])
+  })
+})
@@ -0,0 +1,63 @@
+/**
+ * Helpers to edit the metadata of the media on a page.
+ */
+
+import type {
+  MediaMetadataItem,
+  MediaMetadataUpdate,
+  MediaMetadataValues,
+} from '../../types'
+
+export const MEDIA_METADATA_KEYS: (keyof MediaMetadataValues)[] = [
+  'alt',
+  'caption',
+  'credit',
+]
+
+/**
+ * The edited values, keyed by media ID.
+ */
+export type MediaMetadataEdits = Record<string, MediaMetadataValues>
+
+/**
+ * Get the edited values of the media, or the stored values if not edited.
+ */
+export function getMediaMetadataValues(
+  item: MediaMetadataItem,
+  edits: MediaMetadataEdits,
+): MediaMetadataValues {
+  return (
+    edits[item.mediaId] || {
+      alt: item.alt,
+      caption: item.caption,
+      credit: item.credit,
+    }
+  )
+}
+
+/**
+ * Check whether the media requires an alt text and the alt text is empty.
+ */
+export function isMissingAlt(
+  item: MediaMetadataItem,
+  values: MediaMetadataValues = item,
+): boolean {
+  return item.requiresAlt && !values.alt.trim()
+}
+
+/**
+ * Get the updates for all media whose edited values are different from the
+ * stored values.
+ */
+export function getChangedMediaMetadata(
+  items: MediaMetadataItem[],
+  edits: MediaMetadataEdits,
+): MediaMetadataUpdate[] {
+  return items.flatMap((item) => {
+    const values = getMediaMetadataValues(item, edits)
+    if (!MEDIA_METADATA_KEYS.some((key) => values[key] !== item[key])) {
+      return []
+    }
+    return [{ mediaId: item.mediaId, ...values }]
+  })
+}
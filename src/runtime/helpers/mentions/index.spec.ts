@@ -0,0 +1,65 @@
+import { test, describe, expect } from 'vitest'
+import { findMentionQuery, getMentionedUserIds, insertMention } from '.'
+
+describe('findMentionQuery', () => {
+  test('Finds the mention at the caret', () => {
+    expect(findMentionQuery('Hello @jo', 9)).toEqual({ start: 6, query: 'jo' })
+    expect(findMentionQuery('@', 1)).toEqual({ start: 0, query: '' })
+  })
+
+  test('Ignores @ inside words or before whitespace', () => {
+    expect(findMentionQuery('mail@example.com', 16)).toBeUndefined()
+    expect(findMentionQuery('Hello @john and', 15)).toBeUndefined()
+  })
+})
+
+describe('insertMention', () => {
+  test('Replaces the query with the label', () => {
+    const user = { id: '1', label: 'John Miller' }
+    expect(
+      insertMention('Hi @jo please check', { start: 3, query: 'jo' }, user),
+    ).toEqual({
+      text: 'Hi @John Miller please check',
+      caret: 16,
+    })
+  })
+})
+
+describe('getMentionedUserIds', () => {
+  test('Returns the unique IDs of mentioned users', () => {
+    const users = [
+      { id: '1', label: 'John Miller' },
+      { id: '2', label: 'Martin Faux' },
+      { id: '1', label: 'John Miller' },
+    ]
+    expect(getMentionedUserIds('@John Miller, please check', users)).toEqual([
+      '1',
+    ])
+  })
+
+  test('Keeps the existing mentions of an edited comment', () => {
+    const existing = [
+      { id: '1', label: 'John Miller' },
+      { id: '2', label: 'Martin Faux' },
+    ]
+    const selected = [{ id: '3', label: 'Martha Meier' }]
+    expect(
+      getMentionedUserIds('@John Miller and @Martha Meier, please check', [
+        ...existing,
+        ...selected,
+      ]),
+    ).toEqual(['1', '3'])
+  })
+
+  test('Does not match labels that are a prefix of the mentioned text', () => {
+    const users = [
+      { id: '1', label: 'Jo' },
+      { id: '2', label: 'John' },
+      { id: '3', label: 'John Miller' },
+    ]
+    expect(getMentionedUserIds('Hi @Johnny', users)).toEqual([])
+    expect(getMentionedUserIds('Hi @John Miller.', users)).toEqual(['3'])
+    expect(getMentionedUserIds('@John and @Jo', users)).toEqual(['1', '2'])
+    expect(getMentionedUserIds('mail@John', users)).toEqual([])
+  })
+})
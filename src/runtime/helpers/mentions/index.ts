@@ -0,0 +1,100 @@
+/**
+ * Helpers for @mentions in comments.
+ */
+
+import type { CommentMentionUser } from '#blokkli/types'
+
+export type MentionQuery = {
+  /**
+   * The index of the @ character.
+   */
+  start: number
+
+  /**
+   * The text between the @ and the caret.
+   */
+  query: string
+}
+
+/**
+ * Find the mention the user is currently typing.
+ *
+ * A mention starts with an @ at the beginning of the text or after a
+ * whitespace and ends at the caret. Returns undefined if the caret is not
+ * inside a mention.
+ */
+export function findMentionQuery(
+  text: string,
+  caret: number,
+): MentionQuery | undefined {
+  const beforeCaret = text.slice(0, caret)
+  const match = /(?:^|\s)@([^\s@]{0,50})$/.exec(beforeCaret)
+  if (!match) {
+    return
+  }
+
+  const query = match[1]
+
+  return {
+    start: caret - query.length - 1,
+    query,
+  }
+}
+
+/**
+ * Replace the mention query with the label of the given user.
+ *
+ * Returns the new text and the position of the caret after the mention.
+ */
+export function insertMention(
+  text: string,
+  mention: MentionQuery,
+  user: CommentMentionUser,
+): { text: string; caret: number } {
+  const before = text.slice(0, mention.start)
+  const after = text.slice(mention.start + mention.query.length + 1)
+  const inserted = `@${user.label} `
+
+  return {
+    text: before + inserted + after.replace(/^ /, ''),
+    caret: before.length + inserted.length,
+  }
+}
+
+/**
+ * Get the IDs of the users that are still mentioned in the text.
+ *
+ * A mention is an @ at the beginning of the text or after a whitespace,
+ * followed by the label of the user and a character that is not part of a
+ * word. If multiple labels match (e.g. "John" and "John Miller"), the longest
+ * one is used.
+ */
+export function getMentionedUserIds(
+  text: string,
+  users: CommentMentionUser[],
+): string[] {
+  const labels = users
+    .map((user) => user.label)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+
+  const mentioned: string[] = []
+  const regex = /(?:^|\s)@/g
+  let match: RegExpExecArray | null
+  while ((match = regex.exec(text))) {
+    const start = match.index + match[0].length
+    const label = labels.find(
+      (label) =>
+        text.startsWith(label, start) &&
+        !/[\p{L}\p{N}_]/u.test(text.charAt(start + label.length)),
+    )
+    if (label) {
+      mentioned.push(label)
+    }
+  }
+
+  return users
+    .filter((user) => mentioned.includes(user.label))
+    .map((user) => user.id)
+    .filter((id, index, ids) => ids.indexOf(id) === index)
+}
@@ -1,8 +1,19 @@
-import type { BlockOptionDefinition } from '#blokkli/types/blokkOptions'
+import type {
+  BlockOptionDefinition,
+  BlockOptionLinkValue,
+} from '#blokkli/types/blokkOptions'
+import { parseLinkOptionValue } from '#blokkli/helpers/runtimeHelpers'
 
 export function optionValueToStorable(
   definition: BlockOptionDefinition,
-  value: string | string[] | boolean | undefined | null | number,
+  value:
+    | string
+    | string[]
+    | boolean
+    | undefined
+    | null
+    | number
+    | BlockOptionLinkValue,
 ): string {
   if (definition.type === 'checkbox') {
     if (typeof value === 'string' && (value === '1' || value === '0')) {
@@ -11,10 +22,24 @@ export function optionValueToStorable(
       return value === true ? '1' : '0'
     }
     return '0'
-  } else if (definition.type === 'text' || definition.type === 'radios') {
+  } else if (
+    definition.type === 'text' ||
+    definition.type === 'radios' ||
+    definition.type === 'select' ||
+    definition.type === 'textarea' ||
+    definition.type === 'date' ||
+    definition.type === 'datetime' ||
+    definition.type === 'media'
+  ) {
     if (typeof value === 'string') {
       return value
     }
+  } else if (definition.type === 'link') {
+    const link = parseLinkOptionValue(value)
+    if (!link.url && !link.label) {
+      return ''
+    }
+    return JSON.stringify(link)
   } else if (definition.type === 'checkboxes') {
     if (Array.isArray(value)) {
       return value.join(',')
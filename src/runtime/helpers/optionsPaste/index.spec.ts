@@ -0,0 +1,119 @@
+import { test, describe, expect } from 'vitest'
+import { getPastableOptionValues, isValidOptionValue } from '.'
+import type { BlockOptionDefinition } from '../../types/blokkOptions'
+
+const breakpoints = [
+  { id: 'mobile', label: 'Mobile', minWidth: 0 },
+  { id: 'desktop', label: 'Desktop', minWidth: 1024 },
+]
+
+const definitions: Record<string, BlockOptionDefinition> = {
+  color: {
+    type: 'radios',
+    label: 'Color',
+    default: 'white',
+    options: { white: 'White', red: 'Red' },
+  },
+  size: {
+    type: 'select',
+    label: 'Size',
+    default: 'small',
+    options: { small: 'Small', large: 'Large' },
+  },
+  tags: {
+    type: 'checkboxes',
+    label: 'Tags',
+    default: [],
+    options: { a: 'A', b: 'B' },
+  },
+  columns: { type: 'number', label: 'Columns', default: 1, min: 1, max: 4 },
+  opacity: {
+    type: 'range',
+    label: 'Opacity',
+    default: 1,
+    min: 0,
+    max: 1,
+    step: 0.1,
+  },
+  hidden: { type: 'checkbox', label: 'Hidden', default: false },
+  title: { type: 'text', label: 'Title', default: '' },
+  spacing: {
+    type: 'radios',
+    label: 'Spacing',
+    default: 'small',
+    options: { small: 'Small', large: 'Large' },
+    responsive: true,
+  },
+}
+
+describe('isValidOptionValue', () => {
+  test('Checks values against the options of the definition', () => {
+    expect(isValidOptionValue(definitions.color, 'red', breakpoints)).toBe(true)
+    expect(isValidOptionValue(definitions.color, 'blue', breakpoints)).toBe(
+      false,
+    )
+    expect(isValidOptionValue(definitions.size, 'large', breakpoints)).toBe(
+      true,
+    )
+    expect(isValidOptionValue(definitions.size, 'huge', breakpoints)).toBe(
+      false,
+    )
+    expect(isValidOptionValue(definitions.tags, 'a,b', breakpoints)).toBe(true)
+    expect(isValidOptionValue(definitions.tags, '', breakpoints)).toBe(true)
+    expect(isValidOptionValue(definitions.tags, 'a,c', breakpoints)).toBe(false)
+  })
+
+  test('Checks numbers against the range of the definition', () => {
+    expect(isValidOptionValue(definitions.columns, '4', breakpoints)).toBe(true)
+    expect(isValidOptionValue(definitions.columns, '5', breakpoints)).toBe(
+      false,
+    )
+    expect(isValidOptionValue(definitions.columns, '', breakpoints)).toBe(false)
+    expect(isValidOptionValue(definitions.opacity, '0.5', breakpoints)).toBe(
+      true,
+    )
+    expect(isValidOptionValue(definitions.opacity, 'abc', breakpoints)).toBe(
+      false,
+    )
+  })
+
+  test('Checks every breakpoint of responsive options', () => {
+    expect(
+      isValidOptionValue(
+        definitions.spacing,
+        '{"mobile":"small","desktop":"large"}',
+        breakpoints,
+      ),
+    ).toBe(true)
+    expect(
+      isValidOptionValue(
+        definitions.spacing,
+        '{"mobile":"small","desktop":"huge"}',
+        breakpoints,
+      ),
+    ).toBe(false)
+    expect(isValidOptionValue(definitions.spacing, 'large', breakpoints)).toBe(
+      true,
+    )
+  })
+})
+
+describe('getPastableOptionValues', () => {
+  test('Only returns valid, changed values of defined options', () => {
+    expect(
+      getPastableOptionValues(
+        {
+          color: 'red',
+          size: 'huge',
+          columns: '2',
+          hidden: '1',
+          title: 'Foo',
+          unknown: 'bar',
+        },
+        { columns: '2', title: 'Bar' },
+        definitions,
+        breakpoints,
+      ),
+    ).toEqual({ color: 'red', hidden: '1', title: 'Foo' })
+  })
+})
@@ -0,0 +1,82 @@
+/**
+ * Helpers to paste the copied option values of a block to other blocks.
+ */
+
+import type { BlokkliBreakpoint } from '../../types'
+import type { BlockOptionDefinition } from '../../types/blokkOptions'
+import { parseResponsiveOptionValue } from '../breakpoints'
+
+function isValidValue(
+  definition: BlockOptionDefinition,
+  value: string,
+): boolean {
+  switch (definition.type) {
+    case 'radios':
+    case 'select':
+      return Object.keys(definition.options).includes(value)
+    case 'checkboxes':
+      return value
+        .split(',')
+        .filter(Boolean)
+        .every((v) => Object.keys(definition.options).includes(v))
+    case 'checkbox':
+      return value === '0' || value === '1'
+    case 'number':
+    case 'range': {
+      const number = Number(value)
+      return (
+        value.trim() !== '' &&
+        Number.isFinite(number) &&
+        number >= definition.min &&
+        number <= definition.max
+      )
+    }
+  }
+  return true
+}
+
+/**
+ * Check whether the stored value is valid for the option definition.
+ *
+ * For responsive options the value of every breakpoint must be valid.
+ */
+export function isValidOptionValue(
+  definition: BlockOptionDefinition,
+  value: string,
+  breakpoints: BlokkliBreakpoint[],
+): boolean {
+  if (definition.responsive && breakpoints.length > 1) {
+    return Object.values(parseResponsiveOptionValue(value, breakpoints)).every(
+      (v) => isValidValue(definition, v),
+    )
+  }
+  return isValidValue(definition, value)
+}
+
+/**
+ * Get the copied option values to paste to a block.
+ *
+ * Only contains options the block defines, whose value is valid for the
+ * block's definition and different from the current value.
+ */
+export function getPastableOptionValues(
+  copied: Record<string, string>,
+  current: Record<string, string>,
+  definitions: Record<string, BlockOptionDefinition>,
+  breakpoints: BlokkliBreakpoint[],
+): Record<string, string> {
+  return Object.entries(definitions).reduce<Record<string, string>>(
+    (acc, [key, definition]) => {
+      const value = copied[key]
+      if (
+        value !== undefined &&
+        value !== current[key] &&
+        isValidOptionValue(definition, value, breakpoints)
+      ) {
+        acc[key] = value
+      }
+      return acc
+    },
+    {},
+  )
+}
@@ -0,0 +1,92 @@
+import { test, describe, expect } from 'vitest'
+import {
+  analyzeText,
+  countSyllables,
+  getKeywordDensity,
+  getReadabilityLevel,
+  getReadabilityScore,
+  getSentences,
+  getWords,
+} from '.'
+
+describe('getWords', () => {
+  test('Matches words in any language', () => {
+    expect(getWords("L'été est très chaud, n'est-ce pas?")).toEqual([
+      "L'été",
+      'est',
+      'très',
+      'chaud',
+      "n'est-ce",
+      'pas',
+    ])
+    expect(getWords('Größe: 42 Äpfel')).toEqual(['Größe', '42', 'Äpfel'])
+  })
+})
+
+describe('getSentences', () => {
+  test('Splits sentences on punctuation and line breaks', () => {
+    expect(
+      getSentences('A heading\nThe first sentence. The second one! v1.2 ok?'),
+    ).toEqual(['A heading', 'The first sentence', 'The second one', 'v1.2 ok'])
+  })
+})
+
+describe('countSyllables', () => {
+  test('Uses language specific vowels', () => {
+    expect(countSyllables('readability', 'en')).toEqual(5)
+    expect(countSyllables('make', 'en')).toEqual(1)
+    expect(countSyllables('Häuser', 'de')).toEqual(2)
+    expect(countSyllables('maisons', 'fr')).toEqual(2)
+    expect(countSyllables('grandes', 'fr')).toEqual(1)
+    expect(countSyllables('città', 'it')).toEqual(2)
+    expect(countSyllables('rhythm', 'de-CH')).toEqual(1)
+  })
+})
+
+describe('getReadabilityScore', () => {
+  test('Calculates the score per language', () => {
+    const text = 'The cat sat on the mat. It was a good day.'
+    expect(getReadabilityScore(text, 'en')).toEqual(100)
+    expect(
+      getReadabilityScore(
+        'Die Verfassungsbeschwerde wurde aufgrund unzureichender Begründung zurückgewiesen.',
+        'de',
+      ),
+    ).toEqual(0)
+    expect(getReadabilityScore('', 'fr')).toBeNull()
+  })
+
+  test('Returns the level of a score', () => {
+    expect(getReadabilityLevel(75)).toEqual('easy')
+    expect(getReadabilityLevel(45)).toEqual('medium')
+    expect(getReadabilityLevel(10)).toEqual('difficult')
+  })
+})
+
+describe('getKeywordDensity', () => {
+  test('Counts multi word keywords', () => {
+    expect(
+      getKeywordDensity(
+        'Content editing is fun. Content Editing with blocks.',
+        'content editing',
+      ),
+    ).toEqual({ count: 2, density: 50 })
+    expect(getKeywordDensity('Some text', '')).toEqual({
+      count: 0,
+      density: 0,
+    })
+  })
+})
+
+describe('analyzeText', () => {
+  test('Returns all metrics', () => {
+    const text = Array(401).fill('word').join(' ')
+    expect(analyzeText(text, 'en', 'word')).toEqual({
+      words: 401,
+      sentences: 1,
+      readingTime: 3,
+      readability: 0,
+      keyword: { count: 401, density: 100 },
+    })
+  })
+})
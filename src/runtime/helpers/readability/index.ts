@@ -0,0 +1,200 @@
+/**
+ * Helpers to analyse the readability of plain text.
+ *
+ * The readability score uses a language specific adaption of the Flesch
+ * reading ease formula. All scores are between 0 (very difficult) and 100
+ * (very easy).
+ */
+
+export type ReadabilityLanguage = 'en' | 'de' | 'fr' | 'it'
+
+export type ReadabilityLevel = 'easy' | 'medium' | 'difficult'
+
+export type KeywordDensity = {
+  /**
+   * How often the keyword appears in the text.
+   */
+  count: number
+
+  /**
+   * The percentage of words in the text that belong to the keyword.
+   */
+  density: number
+}
+
+export type TextAnalysis = {
+  words: number
+  sentences: number
+  /**
+   * The estimated reading time in minutes.
+   */
+  readingTime: number
+  /**
+   * The readability score or null if the text has no words.
+   */
+  readability: number | null
+  keyword: KeywordDensity
+}
+
+type LanguageRules = {
+  /**
+   * Characters that form the nucleus of a syllable.
+   */
+  vowels: RegExp
+
+  /**
+   * Endings that are not pronounced as a separate syllable.
+   */
+  silentEnding?: RegExp
+
+  /**
+   * Calculate the score from the average sentence length and the average
+   * number of syllables per word.
+   */
+  formula: (wordsPerSentence: number, syllablesPerWord: number) => number
+}
+
+const RULES: Record<ReadabilityLanguage, LanguageRules> = {
+  // Flesch reading ease.
+  en: {
+    vowels: /[aeiouy]+/g,
+    silentEnding: /[^aeiouy]e$/,
+    formula: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw,
+  },
+  // Amstad.
+  de: {
+    vowels: /[aeiouyäöü]+/g,
+    formula: (asl, asw) => 180 - asl - 58.5 * asw,
+  },
+  // Kandel and Moles.
+  fr: {
+    vowels: /[aeiouyàâéèêëîïôûùüœæ]+/g,
+    silentEnding: /[^aeiouyàâéèêëîïôûùüœæ]es?$/,
+    formula: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw,
+  },
+  // Flesch-Vacca.
+  it: {
+    vowels: /[aeiouàèéìíîòóùú]+/g,
+    formula: (asl, asw) => 217 - 1.3 * asl - 60 * asw,
+  },
+}
+
+const WORDS_PER_MINUTE = 200
+
+/**
+ * Get the rules for the given langcode, falling back to English.
+ */
+function getRules(language: string): LanguageRules {
+  const langcode = language.toLowerCase().split(/[-_]/)[0]
+  return RULES[langcode as ReadabilityLanguage] || RULES.en
+}
+
+/**
+ * Get all words of the text.
+ */
+export function getWords(text: string): string[] {
+  return text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || []
+}
+
+/**
+ * Get all sentences of the text. Line breaks also end a sentence, so that
+ * headings and list items are counted separately.
+ */
+export function getSentences(text: string): string[] {
+  return text
+    .split(/[.!?…]+(?:\s|$)|\n/)
+    .filter((sentence) => getWords(sentence).length > 0)
+}
+
+/**
+ * Estimate the number of syllables of a word.
+ */
+export function countSyllables(word: string, language: string): number {
+  const rules = getRules(language)
+  let normalized = word.toLowerCase()
+  if (rules.silentEnding && rules.silentEnding.test(normalized)) {
+    normalized = normalized.replace(/es?$/, '')
+  }
+  return Math.max(normalized.match(rules.vowels)?.length || 0, 1)
+}
+
+/**
+ * Calculate the readability score of the text.
+ */
+export function getReadabilityScore(
+  text: string,
+  language: string,
+): number | null {
+  const words = getWords(text)
+  const sentences = getSentences(text).length
+  if (!words.length || !sentences) {
+    return null
+  }
+  const syllables = words.reduce(
+    (acc, word) => acc + countSyllables(word, language),
+    0,
+  )
+  const score = getRules(language).formula(
+    words.length / sentences,
+    syllables / words.length,
+  )
+  return Math.round(Math.min(Math.max(score, 0), 100))
+}
+
+/**
+ * Get the level of a readability score.
+ */
+export function getReadabilityLevel(score: number): ReadabilityLevel {
+  if (score >= 60) {
+    return 'easy'
+  } else if (score >= 30) {
+    return 'medium'
+  }
+  return 'difficult'
+}
+
+/**
+ * Count how often the keyword (which may contain multiple words) appears in
+ * the text.
+ */
+export function getKeywordDensity(
+  text: string,
+  keyword: string,
+): KeywordDensity {
+  const words = getWords(text).map((v) => v.toLowerCase())
+  const keywordWords = getWords(keyword).map((v) => v.toLowerCase())
+  if (!words.length || !keywordWords.length) {
+    return { count: 0, density: 0 }
+  }
+
+  let count = 0
+  for (let i = 0; i <= words.length - keywordWords.length; i++) {
+    if (keywordWords.every((v, j) => words[i + j] === v)) {
+      count++
+    }
+  }
+
+  return {
+    count,
+    density:
+      Math.round(((count * keywordWords.length) / words.length) * 10000) / 100,
+  }
+}
+
+/**
+ * Analyse the text.
+ */
+export function analyzeText(
+  text: string,
+  language: string,
+  keyword: string,
+): TextAnalysis {
+  const words = getWords(text).length
+  return {
+    words,
+    sentences: getSentences(text).length,
+    readingTime: Math.ceil(words / WORDS_PER_MINUTE),
+    readability: getReadabilityScore(text, language),
+    keyword: getKeywordDensity(text, keyword),
+  }
+}
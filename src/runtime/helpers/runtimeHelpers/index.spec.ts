@@ -1,5 +1,5 @@
 import { test, describe, expect } from 'vitest'
-import { getRuntimeOptionValue } from '.'
+import { getRuntimeOptionValue, isOptionConditionMet } from '.'
 import type { BlockOptionDefinition } from '#blokkli/types/blokkOptions'
 
 describe('getRuntimeOptionValue', () => {
@@ -69,3 +69,104 @@ describe('getRuntimeOptionValue', () => {
     expect(getRuntimeOptionValue(checkbox, undefined)).toEqual('')
   })
 })
+
+describe('getRuntimeOptionValue for additional types', () => {
+  test('Returns the correct value for type select', () => {
+    const select: BlockOptionDefinition = {
+      type: 'select',
+      label: 'Foobar',
+      default: 'one',
+      options: { one: 'One', two: 'Two' },
+    }
+    expect(getRuntimeOptionValue(select, 'two')).toEqual('two')
+    expect(getRuntimeOptionValue(select, undefined)).toEqual('')
+  })
+
+  test('Returns the correct value for type link', () => {
+    const link: BlockOptionDefinition = {
+      type: 'link',
+      label: 'Foobar',
+      default: { url: '', label: '' },
+    }
+    expect(
+      getRuntimeOptionValue(
+        link,
+        JSON.stringify({ url: 'https://example.com', label: 'Example' }),
+      ),
+    ).toEqual({ url: 'https://example.com', label: 'Example' })
+    expect(getRuntimeOptionValue(link, '/about')).toEqual({
+      url: '/about',
+      label: '',
+    })
+    expect(getRuntimeOptionValue(link, { url: '/', label: 'Home' })).toEqual({
+      url: '/',
+      label: 'Home',
+    })
+    expect(getRuntimeOptionValue(link, undefined)).toEqual({
+      url: '',
+      label: '',
+    })
+  })
+
+  test('Returns the correct value for type media', () => {
+    const media: BlockOptionDefinition = {
+      type: 'media',
+      label: 'Foobar',
+      default: '',
+    }
+    expect(getRuntimeOptionValue(media, '42')).toEqual('42')
+    expect(getRuntimeOptionValue(media, undefined)).toEqual('')
+  })
+
+  test('Returns the correct value for type date', () => {
+    const date: BlockOptionDefinition = {
+      type: 'datetime',
+      label: 'Foobar',
+      default: '',
+    }
+    expect(getRuntimeOptionValue(date, '2024-05-17T08:30')).toEqual(
+      '2024-05-17T08:30',
+    )
+    expect(getRuntimeOptionValue(date, 'tomorrow')).toEqual('')
+  })
+})
+
+describe('isOptionConditionMet', () => {
+  test('Compares single values', () => {
+    expect(isOptionConditionMet({ layout: 'grid' }, { layout: 'grid' })).toBe(
+      true,
+    )
+    expect(isOptionConditionMet({ layout: 'grid' }, { layout: 'list' })).toBe(
+      false,
+    )
+    expect(isOptionConditionMet({ showTitle: true }, { showTitle: true })).toBe(
+      true,
+    )
+    expect(isOptionConditionMet({ columns: 3 }, { columns: 3 })).toBe(true)
+  })
+
+  test('Supports multiple expected values', () => {
+    const condition = { layout: ['grid', 'masonry'] }
+    expect(isOptionConditionMet(condition, { layout: 'masonry' })).toBe(true)
+    expect(isOptionConditionMet(condition, { layout: 'list' })).toBe(false)
+  })
+
+  test('Supports checkboxes', () => {
+    expect(
+      isOptionConditionMet({ features: 'title' }, { features: ['title'] }),
+    ).toBe(true)
+    expect(isOptionConditionMet({ features: 'title' }, { features: [] })).toBe(
+      false,
+    )
+  })
+
+  test('Requires all conditions to be met', () => {
+    const condition = { layout: 'grid', showTitle: true }
+    expect(
+      isOptionConditionMet(condition, { layout: 'grid', showTitle: true }),
+    ).toBe(true)
+    expect(
+      isOptionConditionMet(condition, { layout: 'grid', showTitle: false }),
+    ).toBe(false)
+  })
+})
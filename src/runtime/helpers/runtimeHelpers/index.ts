@@ -2,7 +2,11 @@
  * This file should contain all helpers that are meant for runtime functionality, such as defineBlokkli composable or <BlokkliProvider>.
  */
 
-import type { BlockOptionDefinition } from '#blokkli/types/blokkOptions'
+import type {
+  BlockOptionCondition,
+  BlockOptionDefinition,
+  BlockOptionLinkValue,
+} from '#blokkli/types/blokkOptions'
 
 /**
  * Map all kinds of truthy values for a checkbox.
@@ -19,11 +23,18 @@ export function mapCheckboxTrue(v?: unknown): '1' | '0' {
  */
 export function getRuntimeOptionValue(
   definition: Pick<BlockOptionDefinition, 'type' | 'default'>,
-  value: string | string[] | boolean | undefined | null | number,
-): string | string[] | boolean | number {
+  value:
+    | string
+    | string[]
+    | boolean
+    | undefined
+    | null
+    | number
+    | BlockOptionLinkValue,
+): string | string[] | boolean | number | BlockOptionLinkValue {
   if (definition.type === 'checkbox') {
     return mapCheckboxTrue(value) === '1'
-  } else if (definition.type === 'radios') {
+  } else if (definition.type === 'radios' || definition.type === 'select') {
     if (typeof value === 'string') {
       return value
     }
@@ -44,6 +55,13 @@ export function getRuntimeOptionValue(
         return parsed
       }
     }
+  } else if (definition.type === 'link') {
+    return parseLinkOptionValue(value)
+  } else if (definition.type === 'date' || definition.type === 'datetime') {
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return value
+    }
+    return ''
   }
 
   if (typeof value === 'string') {
@@ -52,3 +70,50 @@ export function getRuntimeOptionValue(
 
   return ''
 }
+
+/**
+ * Parse the value of an option of type "link".
+ *
+ * The value is stored as a JSON encoded object.
+ */
+export function parseLinkOptionValue(value: unknown): BlockOptionLinkValue {
+  let parsed: unknown = value
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value)
+    } catch {
+      // A plain string is treated as the URL.
+      return { url: value, label: '' }
+    }
+  }
+
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    const { url, label } = parsed as Record<string, unknown>
+    return {
+      url: typeof url === 'string' ? url : '',
+      label: typeof label === 'string' ? label : '',
+    }
+  }
+
+  return { url: '', label: '' }
+}
+
+/**
+ * Check whether the given option condition is met.
+ *
+ * The values are the runtime values of the options, as returned by
+ * getRuntimeOptionValue().
+ */
+export function isOptionConditionMet(
+  condition: BlockOptionCondition,
+  values: Record<string, unknown>,
+): boolean {
+  return Object.entries(condition).every(([key, expected]) => {
+    const value = values[key]
+    const actualValues = Array.isArray(value) ? value : [value]
+    const expectedValues = Array.isArray(expected) ? expected : [expected]
+    return actualValues.some((actual) =>
+      expectedValues.some((v) => String(v) === String(actual)),
+    )
+  })
+}
@@ -0,0 +1,39 @@
+import { test, describe, expect } from 'vitest'
+import { fromDateTimeLocal, toDateTimeLocal, validateSchedule } from '.'
+
+describe('validateSchedule', () => {
+  const now = 1000
+
+  test('Requires at least one date', () => {
+    expect(validateSchedule({ publishOn: null, unpublishOn: null }, now)).toBe(
+      'empty',
+    )
+  })
+
+  test('Rejects dates in the past', () => {
+    expect(validateSchedule({ publishOn: 500, unpublishOn: null }, now)).toBe(
+      'publishInPast',
+    )
+    expect(validateSchedule({ publishOn: null, unpublishOn: 500 }, now)).toBe(
+      'unpublishInPast',
+    )
+  })
+
+  test('Requires unpublishing after publishing', () => {
+    expect(validateSchedule({ publishOn: 3000, unpublishOn: 2000 }, now)).toBe(
+      'unpublishBeforePublish',
+    )
+    expect(
+      validateSchedule({ publishOn: 2000, unpublishOn: 3000 }, now),
+    ).toBeUndefined()
+  })
+})
+
+describe('toDateTimeLocal', () => {
+  test('Converts back and forth', () => {
+    const value = toDateTimeLocal(fromDateTimeLocal('2030-05-17T08:30'))
+    expect(value).toBe('2030-05-17T08:30')
+    expect(toDateTimeLocal(null)).toBe('')
+    expect(fromDateTimeLocal('')).toBeNull()
+  })
+})
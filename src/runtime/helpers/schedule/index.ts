@@ -0,0 +1,70 @@
+import type { PublishSchedule } from '../../types'
+
+export type PublishScheduleError =
+  | 'empty'
+  | 'publishInPast'
+  | 'unpublishInPast'
+  | 'unpublishBeforePublish'
+
+const pad = (v: number) => v.toString().padStart(2, '0')
+
+/**
+ * Convert a timestamp (seconds since UNIX epoch) to the value of a
+ * datetime-local input, in the local timezone.
+ */
+export function toDateTimeLocal(timestamp: number | null): string {
+  if (!timestamp) {
+    return ''
+  }
+  const date = new Date(timestamp * 1000)
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+/**
+ * Convert the value of a datetime-local input to a timestamp (seconds since
+ * UNIX epoch).
+ */
+export function fromDateTimeLocal(value: string): number | null {
+  if (!value) {
+    return null
+  }
+  const time = new Date(value).getTime()
+  return Number.isNaN(time) ? null : Math.round(time / 1000)
+}
+
+/**
+ * Validate a schedule.
+ *
+ * Returns the error or undefined if the schedule is valid.
+ */
+export function validateSchedule(
+  schedule: PublishSchedule,
+  now: number = Date.now() / 1000,
+): PublishScheduleError | undefined {
+  const { publishOn, unpublishOn } = schedule
+  if (!publishOn && !unpublishOn) {
+    return 'empty'
+  }
+
+  if (publishOn && publishOn <= now) {
+    return 'publishInPast'
+  }
+
+  if (unpublishOn && unpublishOn <= now) {
+    return 'unpublishInPast'
+  }
+
+  if (publishOn && unpublishOn && unpublishOn <= publishOn) {
+    return 'unpublishBeforePublish'
+  }
+}
+
+/**
+ * Format a timestamp (seconds since UNIX epoch) for display.
+ */
+export function formatScheduleDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleString(undefined, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  })
+}
@@ -59,6 +59,7 @@ export type StateProvider = {
   getBlockBundleCount: (bundle: string) => number
   getFieldListItem: (uuid: string) => FieldListItem | undefined
   getMutatedField: (uuid: string, fieldName: string) => MutatedField | undefined
+  applyRemoteState: (state: MappedState) => void
 }
 
 export default async function (
@@ -253,7 +254,9 @@ export default async function (
       }
       unlockBody()
       if (result.state) {
-        setContext(adapter.mapState(result.state))
+        const mappedState = adapter.mapState(result.state)
+        setContext(mappedState)
+        eventBus.emit('state:mutated', mappedState)
       }
 
       if (!result.success) {
@@ -287,6 +290,31 @@ export default async function (
     }
   }
 
+  /**
+   * Apply a state that was changed by another user, without reloading it
+   * from the adapter.
+   *
+   * The ownership in the state is from the perspective of the other user. If
+   * they are the owner (e.g. because they took ownership), the current user
+   * only remains the owner if both are the same user.
+   */
+  function applyRemoteState(state: MappedState) {
+    const isOwner = !!owner.value?.currentUserIsOwner
+    if (!state.currentUserIsOwner) {
+      setContext({
+        ...state,
+        ownerName: owner.value?.name || state.ownerName,
+        currentUserIsOwner: isOwner,
+      })
+      return
+    }
+
+    setContext({
+      ...state,
+      currentUserIsOwner: isOwner && owner.value?.name === state.ownerName,
+    })
+  }
+
   const canEdit = computed(() => !!owner.value?.currentUserIsOwner)
   const isTranslation = computed(
     () =>
@@ -337,5 +365,6 @@ export default async function (
     getBlockBundleCount,
     getFieldListItem,
     getMutatedField,
+    applyRemoteState,
   }
 }
@@ -0,0 +1,124 @@
+// @vitest-environment happy-dom
+import { test, describe, expect } from 'vitest'
+import {
+  insertCells,
+  parseHtmlTable,
+  parseTableMarkup,
+  parseTsv,
+  serializeTable,
+} from '.'
+
+describe('parseTableMarkup', () => {
+  test('Parses a table with a header row', () => {
+    const data = parseTableMarkup(
+      '<table><thead><tr><th>A</th><th>B</th></tr></thead><tbody><tr><td>1</td><td><strong>2</strong></td></tr></tbody></table>',
+    )
+    expect(data).toEqual({
+      hasHeader: true,
+      rows: [
+        ['A', 'B'],
+        ['1', '<strong>2</strong>'],
+      ],
+    })
+  })
+
+  test('Parses the contents of a table element', () => {
+    const data = parseTableMarkup('<tbody><tr><td>1</td></tr></tbody>')
+    expect(data).toEqual({
+      hasHeader: false,
+      rows: [['1']],
+    })
+  })
+
+  test('Normalizes rows with missing cells', () => {
+    const data = parseTableMarkup(
+      '<table><tr><td>1</td><td>2</td></tr><tr><td>3</td></tr></table>',
+    )
+    expect(data.rows).toEqual([
+      ['1', '2'],
+      ['3', ''],
+    ])
+  })
+
+  test('Returns an empty table for empty markup', () => {
+    expect(parseTableMarkup('').rows).toEqual([
+      ['', ''],
+      ['', ''],
+    ])
+  })
+})
+
+describe('serializeTable', () => {
+  test('Serializes the table with and without wrapper', () => {
+    const data = {
+      hasHeader: true,
+      rows: [['A'], ['1']],
+    }
+    expect(serializeTable(data)).toBe(
+      '<table><thead><tr><th>A</th></tr></thead><tbody><tr><td>1</td></tr></tbody></table>',
+    )
+    expect(serializeTable(data, false)).toBe(
+      '<thead><tr><th>A</th></tr></thead><tbody><tr><td>1</td></tr></tbody>',
+    )
+  })
+
+  test('Serialized markup can be parsed again', () => {
+    const data = {
+      hasHeader: false,
+      rows: [
+        ['1', '2'],
+        ['3', '4'],
+      ],
+    }
+    expect(parseTableMarkup(serializeTable(data))).toEqual(data)
+  })
+})
+
+describe('parseTsv', () => {
+  test('Parses tab separated values', () => {
+    expect(parseTsv('A\tB\n1\t2\n')).toEqual([
+      ['A', 'B'],
+      ['1', '2'],
+    ])
+  })
+
+  test('Supports quoted values', () => {
+    expect(parseTsv('"Multi\nline"\t"With ""quotes"""\r\n<b>\t')).toEqual([
+      ['Multi\nline', 'With "quotes"'],
+      ['&lt;b&gt;', ''],
+    ])
+  })
+})
+
+describe('parseHtmlTable', () => {
+  test('Extracts the text content of cells', () => {
+    expect(
+      parseHtmlTable(
+        '<meta charset="utf-8"><table><tr><td style="color: red"><span>A  </span></td><td>B</td></tr></table>',
+      ),
+    ).toEqual([['A', 'B']])
+  })
+
+  test('Returns undefined if there is no table', () => {
+    expect(parseHtmlTable('<p>Text</p>')).toBeUndefined()
+  })
+})
+
+describe('insertCells', () => {
+  test('Extends the table if needed', () => {
+    expect(
+      insertCells(
+        [['1', '2']],
+        [
+          ['A', 'B'],
+          ['C', 'D'],
+        ],
+        0,
+        1,
+      ),
+    ).toEqual([
+      ['1', 'A', 'B'],
+      ['', 'C', 'D'],
+    ])
+  })
+})
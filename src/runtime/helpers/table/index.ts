@@ -0,0 +1,223 @@
+/**
+ * Helpers for the in-place editor of editable fields of type "table".
+ *
+ * The value of a table field is stored as HTML markup. Internally the editor
+ * works with a two dimensional array of cell contents.
+ */
+
+export type TableData = {
+  /**
+   * Whether the first row is rendered as a header row (<thead>).
+   */
+  hasHeader: boolean
+
+  /**
+   * The rows, each containing the markup of every cell.
+   */
+  rows: string[][]
+}
+
+/**
+ * Get the number of columns of the widest row.
+ */
+export function getColumnCount(rows: string[][]): number {
+  return rows.reduce((acc, row) => Math.max(acc, row.length), 0)
+}
+
+/**
+ * Make sure every row has the same amount of cells and there is at least a
+ * single cell.
+ */
+export function normalizeRows(rows: string[][]): string[][] {
+  const columns = Math.max(getColumnCount(rows), 1)
+  const normalized = rows.map((row) => {
+    return [...row, ...Array.from({ length: columns - row.length }, () => '')]
+  })
+
+  if (!normalized.length) {
+    normalized.push(Array.from({ length: columns }, () => ''))
+  }
+
+  return normalized
+}
+
+/**
+ * Create an empty table with the given dimensions.
+ */
+export function createEmptyTable(rows = 2, columns = 2): TableData {
+  return {
+    hasHeader: true,
+    rows: Array.from({ length: rows }, () =>
+      Array.from({ length: columns }, () => ''),
+    ),
+  }
+}
+
+/**
+ * Parse the rows of an HTML element containing table rows.
+ */
+function parseRowsFromElement(el: Element | DocumentFragment): string[][] {
+  return [...el.querySelectorAll('tr')].map((tr) => {
+    return [...tr.children]
+      .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map((cell) => cell.innerHTML.trim())
+  })
+}
+
+/**
+ * Parse the value of a table field.
+ *
+ * The markup may either contain a full <table> element or only its contents
+ * (e.g. when the editable element itself is a <table>).
+ */
+export function parseTableMarkup(markup: string): TableData {
+  const template = document.createElement('template')
+  template.innerHTML = markup.trim().startsWith('<table')
+    ? markup
+    : `<table>${markup}</table>`
+
+  const rows = parseRowsFromElement(template.content)
+
+  if (!rows.length) {
+    return createEmptyTable()
+  }
+
+  const firstRow = template.content.querySelector('tr')
+  const hasHeader =
+    !!firstRow &&
+    (firstRow.parentElement?.tagName === 'THEAD' ||
+      [...firstRow.children].every((cell) => cell.tagName === 'TH'))
+
+  return {
+    hasHeader,
+    rows: normalizeRows(rows),
+  }
+}
+
+/**
+ * Serialize the table to markup.
+ *
+ * If `wrap` is false, the <table> element itself is omitted, which is needed
+ * when the editable element is a <table>.
+ */
+export function serializeTable(data: TableData, wrap = true): string {
+  const rows = normalizeRows(data.rows)
+  const renderRow = (row: string[], tag: 'th' | 'td') =>
+    `<tr>${row.map((cell) => `<${tag}>${cell}</${tag}>`).join('')}</tr>`
+
+  const headerRows = data.hasHeader ? rows.slice(0, 1) : []
+  const bodyRows = data.hasHeader ? rows.slice(1) : rows
+
+  const markup = [
+    headerRows.length
+      ? `<thead>${headerRows.map((row) => renderRow(row, 'th')).join('')}</thead>`
+      : '',
+    `<tbody>${bodyRows.map((row) => renderRow(row, 'td')).join('')}</tbody>`,
+  ].join('')
+
+  return wrap ? `<table>${markup}</table>` : markup
+}
+
+/**
+ * Escape text so it can be used as the markup of a cell.
+ */
+export function escapeCellText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Parse tab separated values, as copied from spreadsheet applications.
+ *
+ * Supports quoted values containing tabs, line breaks or escaped quotes.
+ */
+export function parseTsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let isQuoted = false
+
+  const input = text.replace(/\r\n?/g, '\n').replace(/\n$/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (isQuoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        isQuoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      isQuoted = true
+    } else if (char === '\t') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n') {
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  row.push(cell)
+  rows.push(row)
+
+  return rows.map((row) => row.map((cell) => escapeCellText(cell.trim())))
+}
+
+/**
+ * Extract the rows of the first table found in the given HTML, e.g. from
+ * the clipboard when copying from a spreadsheet or document.
+ *
+ * Cells are reduced to their text content, so that any styling or markup
+ * from the source application is removed.
+ */
+export function parseHtmlTable(html: string): string[][] | undefined {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const table = doc.querySelector('table')
+  if (!table) {
+    return
+  }
+
+  const rows = [...table.querySelectorAll('tr')].map((tr) => {
+    return [...tr.children]
+      .filter((cell) => cell.tagName === 'TD' || cell.tagName === 'TH')
+      .map((cell) =>
+        escapeCellText((cell.textContent || '').replace(/\s+/g, ' ').trim()),
+      )
+  })
+
+  return rows.length ? rows : undefined
+}
+
+/**
+ * Insert the given cells into the table, starting at the given position.
+ *
+ * The table is extended with new rows and columns if needed.
+ */
+export function insertCells(
+  rows: string[][],
+  cells: string[][],
+  rowIndex: number,
+  columnIndex: number,
+): string[][] {
+  const newRows = rows.map((row) => [...row])
+
+  for (let i = 0; i < cells.length; i++) {
+    const targetRow = rowIndex + i
+    if (!newRows[targetRow]) {
+      newRows[targetRow] = []
+    }
+    for (let j = 0; j < cells[i].length; j++) {
+      newRows[targetRow][columnIndex + j] = cells[i][j]
+    }
+  }
+
+  return normalizeRows(newRows.map((row) => [...row].map((cell) => cell || '')))
+}
@@ -1,30 +1,119 @@
-import { type ComputedRef, computed } from 'vue'
-import type { AdapterContext } from '../adapter'
+import { type ComputedRef, computed, ref, watch } from 'vue'
+import type { AdapterContext, BlokkliAdapter } from '../adapter'
 import { translations } from '#blokkli/translations'
-import { defaultLanguage, forceDefaultLanguage } from '#blokkli/config'
+import {
+  defaultLanguage,
+  forceDefaultLanguage,
+  translationsUrl,
+} from '#blokkli/config'
+import { formatMessage, type MessageParams } from './icu'
 
-export type TextProvider = (key: string, defaultValue?: string) => string
+export type MissingTranslation = {
+  key: string
+  defaultValue: string
+}
+
+export type TextProvider = {
+  (key: string, defaultValue?: string, params?: MessageParams): string
+
+  /**
+   * The language of the texts.
+   */
+  language: ComputedRef<string>
+
+  /**
+   * Get all keys that were requested but are missing in the current language.
+   */
+  getMissingKeys: () => MissingTranslation[]
+}
 
-type TranslationLanguage = keyof typeof translations
+type Catalog = Record<string, string>
 
-export default function (context?: ComputedRef<AdapterContext>): TextProvider {
-  const language = computed<TranslationLanguage>(() => {
+export default function (
+  context?: ComputedRef<AdapterContext>,
+  adapter?: Pick<BlokkliAdapter<unknown>, 'loadTranslations'>,
+): TextProvider {
+  // Catalogs loaded at runtime, keyed by language.
+  const runtimeCatalogs = ref<Record<string, Catalog>>({})
+
+  const canLoadCatalogs = !!(adapter?.loadTranslations || translationsUrl)
+
+  const language = computed<string>(() => {
     if (forceDefaultLanguage) {
-      return defaultLanguage as TranslationLanguage
+      return defaultLanguage
     }
+    const langcode = context?.value.language
     if (
-      context?.value.language &&
-      (translations as any)[context.value.language]
+      langcode &&
+      ((translations as Record<string, Catalog>)[langcode] ||
+        runtimeCatalogs.value[langcode])
     ) {
-      return context.value.language as TranslationLanguage
+      return langcode
     }
-    return defaultLanguage as TranslationLanguage
+    return defaultLanguage
   })
-  const currentTranslations = computed<any>(() => {
-    return translations[language.value] || {}
+
+  const currentTranslations = computed<Catalog>(() => {
+    return {
+      ...((translations as Record<string, Catalog>)[language.value] || {}),
+      ...(runtimeCatalogs.value[language.value] || {}),
+    }
   })
 
-  return (key: string, defaultValue?: string) => {
-    return currentTranslations.value[key] || defaultValue
+  // Not reactive, because keys are added while rendering.
+  const missingKeys = new Map<string, string>()
+
+  watch(language, () => missingKeys.clear())
+
+  async function loadCatalog(langcode: string) {
+    if (runtimeCatalogs.value[langcode]) {
+      return
+    }
+    try {
+      const catalog = adapter?.loadTranslations
+        ? await adapter.loadTranslations(langcode)
+        : await fetch(translationsUrl.replace('{language}', langcode)).then(
+            (response) => (response.ok ? response.json() : null),
+          )
+      runtimeCatalogs.value[langcode] = catalog || {}
+    } catch (e) {
+      console.error(`Failed to load the translations for "${langcode}".`, e)
+      runtimeCatalogs.value[langcode] = {}
+    }
+  }
+
+  if (canLoadCatalogs && !forceDefaultLanguage) {
+    watch(
+      () => context?.value.language,
+      (langcode) => {
+        if (langcode) {
+          loadCatalog(langcode)
+        }
+      },
+      { immediate: true },
+    )
+  } else if (canLoadCatalogs) {
+    loadCatalog(defaultLanguage)
   }
+
+  const $t = ((key: string, defaultValue?: string, params?: MessageParams) => {
+    const translation = currentTranslations.value[key]
+    // The default values are in English, so they are never reported as
+    // missing.
+    if (!translation && language.value !== 'en') {
+      missingKeys.set(key, defaultValue || '')
+    }
+    const text = translation || defaultValue || ''
+    return params ? formatMessage(text, params, language.value) : text
+  }) as TextProvider
+
+  $t.language = language
+
+  $t.getMissingKeys = () =>
+    [...missingKeys.entries()]
+      .filter(([key]) => !currentTranslations.value[key])
+      .map(([key, defaultValue]) => ({ key, defaultValue }))
+      .sort((a, b) => a.key.localeCompare(b.key))
+
+  return $t
 }
@@ -0,0 +1,62 @@
+import { test, describe, expect } from 'vitest'
+import { getTranslationProgress } from '.'
+
+describe('getTranslationProgress', () => {
+  test('Calculates the progress per language', () => {
+    const blocks = [
+      { uuid: '1', bundle: 'title' },
+      { uuid: '2', bundle: 'text' },
+      { uuid: '3', bundle: 'text' },
+    ]
+    expect(
+      getTranslationProgress(
+        blocks,
+        [
+          { uuid: '1', langcode: 'de', status: 'translated' },
+          { uuid: '2', langcode: 'de', status: 'outdated' },
+          { uuid: '1', langcode: 'fr', status: 'translated' },
+          { uuid: '2', langcode: 'fr', status: 'translated' },
+          { uuid: '3', langcode: 'fr', status: 'translated' },
+          { uuid: '4', langcode: 'fr', status: 'missing' },
+        ],
+        ['de', 'fr', 'it'],
+      ),
+    ).toEqual([
+      {
+        langcode: 'de',
+        total: 3,
+        translated: 1,
+        outdated: 1,
+        percentage: 33,
+        pending: [
+          { uuid: '2', bundle: 'text', status: 'outdated' },
+          { uuid: '3', bundle: 'text', status: 'missing' },
+        ],
+      },
+      {
+        langcode: 'fr',
+        total: 3,
+        translated: 3,
+        outdated: 0,
+        percentage: 100,
+        pending: [],
+      },
+      {
+        langcode: 'it',
+        total: 3,
+        translated: 0,
+        outdated: 0,
+        percentage: 0,
+        pending: [
+          { uuid: '1', bundle: 'title', status: 'missing' },
+          { uuid: '2', bundle: 'text', status: 'missing' },
+          { uuid: '3', bundle: 'text', status: 'missing' },
+        ],
+      },
+    ])
+  })
+
+  test('Reports full progress without translatable blocks', () => {
+    expect(getTranslationProgress([], [], ['de'])[0].percentage).toEqual(100)
+  })
+})
@@ -0,0 +1,76 @@
+import type {
+  BlockTranslationMetadata,
+  TranslationFieldStatus,
+} from '#blokkli/types'
+
+export type TranslationProgressBlock = {
+  uuid: string
+  bundle: string
+  status: TranslationFieldStatus
+}
+
+export type TranslationProgress = {
+  langcode: string
+
+  /**
+   * The number of translatable blocks.
+   */
+  total: number
+
+  /**
+   * The number of blocks that are translated and up to date.
+   */
+  translated: number
+
+  /**
+   * The number of blocks whose source has changed after being translated.
+   */
+  outdated: number
+
+  /**
+   * The percentage of translated blocks, rounded down.
+   */
+  percentage: number
+
+  /**
+   * The blocks that are missing or outdated, in the order of the given blocks.
+   */
+  pending: TranslationProgressBlock[]
+}
+
+/**
+ * Calculate the translation progress of the translatable blocks per language.
+ *
+ * Blocks without metadata for a language are considered missing.
+ */
+export function getTranslationProgress(
+  blocks: { uuid: string; bundle: string }[],
+  metadata: BlockTranslationMetadata[],
+  langcodes: string[],
+): TranslationProgress[] {
+  const statusMap = metadata.reduce<
+    Record<string, Record<string, TranslationFieldStatus>>
+  >((acc, item) => {
+    acc[item.langcode] ||= {}
+    acc[item.langcode][item.uuid] = item.status
+    return acc
+  }, {})
+
+  return langcodes.map((langcode) => {
+    const items = blocks.map((block) => ({
+      ...block,
+      status: statusMap[langcode]?.[block.uuid] || 'missing',
+    }))
+    const translated = items.filter((v) => v.status === 'translated').length
+    return {
+      langcode,
+      total: items.length,
+      translated,
+      outdated: items.filter((v) => v.status === 'outdated').length,
+      percentage: items.length
+        ? Math.floor((translated / items.length) * 100)
+        : 100,
+      pending: items.filter((v) => v.status !== 'translated'),
+    }
+  })
+}
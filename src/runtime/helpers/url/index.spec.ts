@@ -0,0 +1,18 @@
+import { test, describe, expect } from 'vitest'
+import { isSafeUrl } from '.'
+
+describe('isSafeUrl', () => {
+  test('Allows relative and http URLs', () => {
+    expect(isSafeUrl('/about')).toBe(true)
+    expect(isSafeUrl('https://example.com')).toBe(true)
+    expect(isSafeUrl('mailto:info@example.com')).toBe(true)
+  })
+
+  test('Rejects unsafe schemes', () => {
+    expect(isSafeUrl('javascript:alert(1)')).toBe(false)
+    expect(isSafeUrl(' JavaScript:alert(1)')).toBe(false)
+    expect(isSafeUrl('java\tscript:alert(1)')).toBe(false)
+    expect(isSafeUrl('data:text/html,foo')).toBe(false)
+    expect(isSafeUrl('vbscript:msgbox')).toBe(false)
+  })
+})
@@ -0,0 +1,14 @@
+const UNSAFE_URL_SCHEMES = ['javascript:', 'data:', 'vbscript:']
+
+/**
+ * Check whether the URL can safely be used as a href or src attribute.
+ */
+export function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters in the scheme, e.g.
+  // "java\tscript:".
+  const normalized = [...url]
+    .filter((char) => char.charCodeAt(0) > 32)
+    .join('')
+    .toLowerCase()
+  return !UNSAFE_URL_SCHEMES.some((scheme) => normalized.startsWith(scheme))
+}
@@ -0,0 +1,114 @@
+import { test, describe, expect } from 'vitest'
+import type { BlockDefinitionInput, MutatedField } from '#blokkli/types'
+import { validateBlock, type ValidateBlockContext } from '.'
+
+const field = (
+  bundles: string[],
+  entityUuid = 'page',
+  name = 'field_blocks',
+): MutatedField => ({
+  name,
+  entityType: 'node',
+  entityUuid,
+  list: bundles.map((bundle, i) => ({
+    uuid: `${entityUuid}-${i}`,
+    bundle,
+    options: {},
+    props: {},
+  })),
+})
+
+const validate = (
+  definition: BlockDefinitionInput<any, any>,
+  fields: MutatedField[],
+  index: number,
+  options: Record<string, any> = {},
+) => {
+  const ctx: ValidateBlockContext = {
+    fields,
+    entity: {
+      entityType: 'node',
+      entityUuid: 'page',
+      entityBundle: 'page',
+      language: 'en',
+    },
+  }
+  const item = fields[0].list[index]
+  return validateBlock(
+    {
+      uuid: item.uuid,
+      bundle: item.bundle,
+      props: {},
+      options,
+      field: fields[0],
+      index,
+      definition,
+    },
+    ctx,
+  )
+}
+
+describe('validateBlock', () => {
+  test('Validates the position', () => {
+    const definition: BlockDefinitionInput<any, any> = {
+      bundle: 'hero',
+      editor: { validationRules: { position: 'first' } },
+    }
+    const fields = [field(['text', 'hero'])]
+    expect(validate(definition, fields, 1)).toEqual([
+      { type: 'position', position: 'first' },
+    ])
+    expect(validate(definition, [field(['hero', 'text'])], 0)).toEqual([])
+  })
+
+  test('Validates required options', () => {
+    const definition: BlockDefinitionInput<any, any> = {
+      bundle: 'teaser',
+      options: { color: { type: 'text', label: 'Color', default: '' } },
+      editor: { validationRules: { requiredOptions: ['color'] } },
+    }
+    const fields = [field(['teaser'])]
+    expect(validate(definition, fields, 0, { color: '' })).toEqual([
+      { type: 'requiredOption', option: 'color' },
+    ])
+    expect(validate(definition, fields, 0, { color: 'red' })).toEqual([])
+  })
+
+  test('Validates max siblings', () => {
+    const definition: BlockDefinitionInput<any, any> = {
+      bundle: 'hero',
+      editor: { validationRules: { maxSiblings: 1 } },
+    }
+    const fields = [field(['hero', 'text', 'hero'])]
+    expect(validate(definition, fields, 0)).toEqual([])
+    expect(validate(definition, fields, 2)).toEqual([
+      { type: 'maxSiblings', count: 1 },
+    ])
+  })
+
+  test('Validates required child bundles', () => {
+    const definition: BlockDefinitionInput<any, any> = {
+      bundle: 'grid',
+      editor: { validationRules: { requiredChildBundles: ['card'] } },
+    }
+    expect(validate(definition, [field(['grid'])], 0)).toEqual([
+      { type: 'requiredChildBundle', bundle: 'card' },
+    ])
+    expect(
+      validate(definition, [field(['grid']), field(['card'], 'page-0')], 0),
+    ).toEqual([])
+  })
+
+  test('Calls the validate method', () => {
+    const definition: BlockDefinitionInput<any, any> = {
+      bundle: 'text',
+      editor: {
+        validate: (ctx) =>
+          ctx.siblings.length > 1 ? 'Must be the only block.' : undefined,
+      },
+    }
+    expect(validate(definition, [field(['text', 'text'])], 0)).toEqual([
+      { type: 'custom', message: 'Must be the only block.' },
+    ])
+  })
+})
@@ -0,0 +1,156 @@
+import type { AdapterContext } from '../../adapter'
+import type {
+  BlockDefinitionInput,
+  FieldListItem,
+  MutatedField,
+} from '../../types'
+import type { BlockBundleWithNested } from '#blokkli/generated-types'
+
+export type ValidatableBlock = {
+  /**
+   * The UUID of the block.
+   */
+  uuid: string
+
+  /**
+   * The bundle of the block. For reusable blocks this is the bundle of the
+   * block in the library item.
+   */
+  bundle: string
+
+  /**
+   * The props of the block.
+   */
+  props: Record<string, any>
+
+  /**
+   * The runtime values of all options of the block.
+   */
+  options: Record<string, any>
+
+  /**
+   * The field the block is in.
+   */
+  field: MutatedField
+
+  /**
+   * The index of the block in its field.
+   */
+  index: number
+
+  /**
+   * The bundle of the parent block if the block is nested.
+   */
+  parentBundle?: BlockBundleWithNested
+
+  /**
+   * The definition of the block.
+   */
+  definition: BlockDefinitionInput<any, any>
+}
+
+export type ValidateBlockContext = {
+  /**
+   * All fields of the current state.
+   */
+  fields: MutatedField[]
+
+  /**
+   * The adapter context.
+   */
+  entity: AdapterContext
+}
+
+export type BlockValidationError =
+  | { type: 'requiredOption'; option: string }
+  | { type: 'maxSiblings'; count: number }
+  | { type: 'requiredChildBundle'; bundle: string }
+  | { type: 'position'; position: 'first' | 'last' }
+  | { type: 'custom'; message: string }
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && !value.length)
+  )
+}
+
+function getChildren(uuid: string, fields: MutatedField[]): FieldListItem[] {
+  return fields
+    .filter((field) => field.entityUuid === uuid)
+    .flatMap((field) => field.list)
+}
+
+/**
+ * Validate a block using the validation rules and the validate() method of
+ * its definition.
+ */
+export function validateBlock(
+  block: ValidatableBlock,
+  ctx: ValidateBlockContext,
+): BlockValidationError[] {
+  const editor = block.definition.editor
+  if (!editor?.validationRules && !editor?.validate) {
+    return []
+  }
+
+  const errors: BlockValidationError[] = []
+  const rules = editor.validationRules || {}
+  const siblings = block.field.list
+  const children = getChildren(block.uuid, ctx.fields)
+
+  if (rules.requiredOptions) {
+    rules.requiredOptions.forEach((key: string) => {
+      if (isEmptyValue(block.options[key])) {
+        errors.push({ type: 'requiredOption', option: key })
+      }
+    })
+  }
+
+  if (rules.maxSiblings !== undefined) {
+    // Only the blocks exceeding the limit are invalid.
+    const itemBundle = siblings[block.index]?.bundle
+    const indexOfBundle = siblings
+      .slice(0, block.index)
+      .filter((v) => v.bundle === itemBundle).length
+    if (indexOfBundle >= rules.maxSiblings) {
+      errors.push({ type: 'maxSiblings', count: rules.maxSiblings })
+    }
+  }
+
+  if (rules.requiredChildBundles) {
+    rules.requiredChildBundles.forEach((bundle) => {
+      if (!children.some((v) => v.bundle === bundle)) {
+        errors.push({ type: 'requiredChildBundle', bundle })
+      }
+    })
+  }
+
+  if (
+    (rules.position === 'first' && block.index !== 0) ||
+    (rules.position === 'last' && block.index !== siblings.length - 1)
+  ) {
+    errors.push({ type: 'position', position: rules.position })
+  }
+
+  if (editor.validate) {
+    const result = editor.validate({
+      uuid: block.uuid,
+      index: block.index,
+      options: block.options,
+      props: block.props,
+      parentType: block.parentBundle,
+      entity: ctx.entity,
+      siblings,
+      children,
+    })
+    if (result) {
+      const messages = Array.isArray(result) ? result : [result]
+      messages.forEach((message) => errors.push({ type: 'custom', message }))
+    }
+  }
+
+  return errors
+}
@@ -0,0 +1,38 @@
+import { test, describe, expect } from 'vitest'
+import { getPagesInRange, getVirtualGridRange } from '.'
+
+describe('getVirtualGridRange', () => {
+  test('Returns the visible rows including overscan', () => {
+    expect(
+      getVirtualGridRange({
+        total: 1000,
+        columns: 4,
+        rowHeight: 100,
+        scrollTop: 1000,
+        viewportHeight: 300,
+        overscan: 1,
+      }),
+    ).toEqual({ start: 36, end: 56, offset: 900, height: 25000 })
+  })
+
+  test('Limits the range to the number of items', () => {
+    expect(
+      getVirtualGridRange({
+        total: 10,
+        columns: 3,
+        rowHeight: 50,
+        scrollTop: 0,
+        viewportHeight: 1000,
+      }),
+    ).toEqual({ start: 0, end: 10, offset: 0, height: 200 })
+  })
+})
+
+describe('getPagesInRange', () => {
+  test('Returns all pages overlapping the range', () => {
+    expect(getPagesInRange(0, 16, 16)).toEqual([0])
+    expect(getPagesInRange(10, 40, 16)).toEqual([0, 1, 2])
+    expect(getPagesInRange(10, 10, 16)).toEqual([])
+    expect(getPagesInRange(0, 10, 0)).toEqual([])
+  })
+})
@@ -0,0 +1,108 @@
+/**
+ * Helpers to render large lists in a grid with rows of equal height, where
+ * only the rows in and near the visible area are rendered.
+ */
+
+export type VirtualGridOptions = {
+  /**
+   * The total number of items.
+   */
+  total: number
+
+  /**
+   * The number of items per row.
+   */
+  columns: number
+
+  /**
+   * The height of a single row in pixels.
+   */
+  rowHeight: number
+
+  /**
+   * The current scroll position of the container in pixels.
+   */
+  scrollTop: number
+
+  /**
+   * The visible height of the container in pixels.
+   */
+  viewportHeight: number
+
+  /**
+   * The number of additional rows to render above and below the visible area.
+   */
+  overscan?: number
+}
+
+export type VirtualGridRange = {
+  /**
+   * The index of the first item to render.
+   */
+  start: number
+
+  /**
+   * The index after the last item to render.
+   */
+  end: number
+
+  /**
+   * The offset of the first rendered row in pixels.
+   */
+  offset: number
+
+  /**
+   * The height of all rows in pixels.
+   */
+  height: number
+}
+
+/**
+ * Get the range of items to render.
+ */
+export function getVirtualGridRange(
+  options: VirtualGridOptions,
+): VirtualGridRange {
+  const columns = Math.max(options.columns, 1)
+  const rowHeight = Math.max(options.rowHeight, 1)
+  const overscan = options.overscan ?? 2
+  const rows = Math.ceil(options.total / columns)
+
+  const firstRow = Math.max(
+    Math.floor(options.scrollTop / rowHeight) - overscan,
+    0,
+  )
+  const lastRow = Math.min(
+    Math.ceil((options.scrollTop + options.viewportHeight) / rowHeight) +
+      overscan,
+    rows,
+  )
+
+  return {
+    start: Math.min(firstRow * columns, options.total),
+    end: Math.min(lastRow * columns, options.total),
+    offset: firstRow * rowHeight,
+    height: rows * rowHeight,
+  }
+}
+
+/**
+ * Get the (zero based) pages containing the items in the given range.
+ */
+export function getPagesInRange(
+  start: number,
+  end: number,
+  perPage: number,
+): number[] {
+  if (perPage <= 0 || end <= start) {
+    return []
+  }
+
+  const first = Math.floor(start / perPage)
+  const last = Math.floor((end - 1) / perPage)
+  const pages: number[] = []
+  for (let page = first; page <= last; page++) {
+    pages.push(page)
+  }
+  return pages
+}
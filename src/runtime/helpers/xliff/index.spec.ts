@@ -0,0 +1,192 @@
+// @vitest-environment jsdom
+import { test, describe, expect } from 'vitest'
+import { buildXliff, parseXliff, type XliffDocument } from '.'
+
+const doc: XliffDocument = {
+  version: '1.2',
+  sourceLanguage: 'en',
+  targetLanguage: 'de',
+  original: 'content:123',
+  units: [
+    {
+      uuid: 'a1',
+      fieldName: 'title',
+      source: 'Fish & Chips',
+      target: 'Fisch & Pommes',
+      note: 'Title » Text',
+    },
+    {
+      uuid: 'b2',
+      fieldName: 'text',
+      source: '<p>Hello <strong>world</strong></p>',
+      isMarkup: true,
+    },
+  ],
+}
+
+describe('buildXliff', () => {
+  test('Builds an XLIFF 1.2 file', () => {
+    expect(buildXliff(doc)).toMatchInlineSnapshot(`
+      "<?xml version="1.0" encoding="UTF-8"?>
+      <xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">
+        <file original="content:123" source-language="en" target-language="de" datatype="plaintext">
+          <body>
+            <trans-unit id="a1:title" resname="title">
+              <source>Fish &amp; Chips</source>
+              <target>Fisch &amp; Pommes</target>
+              <note>Title » Text</note>
+            </trans-unit>
+            <trans-unit id="b2:text" resname="text" datatype="html">
+              <source>&lt;p&gt;Hello &lt;strong&gt;world&lt;/strong&gt;&lt;/p&gt;</source>
+            </trans-unit>
+          </body>
+        </file>
+      </xliff>
+      "
+    `)
+  })
+
+  test('Builds an XLIFF 2.0 file', () => {
+    expect(buildXliff({ ...doc, version: '2.0' })).toMatchInlineSnapshot(`
+      "<?xml version="1.0" encoding="UTF-8"?>
+      <xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de">
+        <file id="f1" original="content:123">
+          <unit id="a1:title" name="title">
+            <notes>
+              <note>Title » Text</note>
+            </notes>
+            <segment>
+              <source>Fish &amp; Chips</source>
+              <target>Fisch &amp; Pommes</target>
+            </segment>
+          </unit>
+          <unit id="b2:text" name="text" type="blokkli:html">
+            <segment>
+              <source>&lt;p&gt;Hello &lt;strong&gt;world&lt;/strong&gt;&lt;/p&gt;</source>
+            </segment>
+          </unit>
+        </file>
+      </xliff>
+      "
+    `)
+  })
+})
+
+describe('parseXliff', () => {
+  test('Parses a built file of both versions', () => {
+    const expected = {
+      sourceLanguage: 'en',
+      targetLanguage: 'de',
+      original: 'content:123',
+    }
+    const v12 = parseXliff(buildXliff(doc))
+    expect(v12).toMatchObject({ ...expected, version: '1.2' })
+    expect(v12.units).toEqual([
+      {
+        uuid: 'a1',
+        fieldName: 'title',
+        source: 'Fish & Chips',
+        target: 'Fisch & Pommes',
+        isMarkup: false,
+      },
+      {
+        uuid: 'b2',
+        fieldName: 'text',
+        source: '<p>Hello <strong>world</strong></p>',
+        target: undefined,
+        isMarkup: true,
+      },
+    ])
+
+    const v20 = parseXliff(buildXliff({ ...doc, version: '2.0' }))
+    expect(v20).toMatchObject({ ...expected, version: '2.0' })
+    expect(v20.units.map((v) => [v.target, v.isMarkup])).toEqual([
+      ['Fisch & Pommes', false],
+      [undefined, true],
+    ])
+  })
+
+  test('Joins the targets of multiple segments', () => {
+    const xml = `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="fr">
+      <file id="f1">
+        <unit id="a1:text">
+          <segment><source>One. </source><target>Un. </target></segment>
+          <segment><source>Two.</source><target>Deux.</target></segment>
+        </unit>
+        <unit id="invalid"><segment><source>x</source></segment></unit>
+      </file>
+    </xliff>`
+    expect(parseXliff(xml).units).toEqual([
+      {
+        uuid: 'a1',
+        fieldName: 'text',
+        source: 'One. Two.',
+        target: 'Un. Deux.',
+        isMarkup: false,
+      },
+    ])
+  })
+
+  test('Reads CDATA sections and entities', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+    <!-- Exported by a translation agency -->
+    <xliff version='1.2'>
+      <file source-language="en" target-language="de">
+        <body>
+          <trans-unit id="a1:text" datatype="html">
+            <source><![CDATA[<p>Hello</p>]]></source>
+            <target>&lt;p&gt;Hall&#246; Welt&#x21;&lt;/p&gt;</target>
+          </trans-unit>
+        </body>
+      </file>
+    </xliff>`
+    expect(parseXliff(xml).units).toEqual([
+      {
+        uuid: 'a1',
+        fieldName: 'text',
+        source: '<p>Hello</p>',
+        target: '<p>Hallö Welt!</p>',
+        isMarkup: true,
+      },
+    ])
+  })
+
+  test('Throws for units with inline elements', () => {
+    const xml = `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="en" trgLang="de">
+      <file id="f1">
+        <unit id="a1:text">
+          <segment>
+            <source>Hello <pc id="1">world</pc></source>
+            <target>Hallo <pc id="1">Welt</pc></target>
+          </segment>
+        </unit>
+      </file>
+    </xliff>`
+    expect(() => parseXliff(xml)).toThrow(
+      'The unit "a1:text" contains inline elements, which are not supported.',
+    )
+  })
+
+  test('Throws for malformed files', () => {
+    const xml = buildXliff(doc)
+    const malformed = [
+      // A truncated file.
+      xml.slice(0, xml.indexOf('</target>')),
+      xml.replace('</source>', '</target>'),
+      xml.replace('&amp;', '&'),
+      xml.replace('<source>', '<source'),
+    ]
+    malformed.forEach((v) => {
+      expect(() => parseXliff(v)).toThrow('The file is not well-formed XML.')
+    })
+  })
+
+  test('Throws for invalid files', () => {
+    expect(() => parseXliff('<html></html>')).toThrow(
+      'The file is not a valid XLIFF file.',
+    )
+    expect(() => parseXliff('<xliff version="1.1"></xliff>')).toThrow(
+      'Unsupported XLIFF version: 1.1',
+    )
+  })
+})
@@ -0,0 +1,241 @@
+/**
+ * Helpers to export and import editable field values as XLIFF 1.2 or 2.0.
+ *
+ * Each translation unit is identified by the UUID of the block and the name of
+ * the field, separated by a colon. Markup is exported as escaped text.
+ */
+
+export type XliffVersion = '1.2' | '2.0'
+
+export type XliffUnit = {
+  uuid: string
+  fieldName: string
+  source: string
+  target?: string
+
+  /**
+   * Whether the value contains markup.
+   */
+  isMarkup?: boolean
+
+  /**
+   * A note for the translator, such as the label of the field.
+   */
+  note?: string
+}
+
+export type XliffDocument = {
+  version: XliffVersion
+  sourceLanguage: string
+  targetLanguage: string
+
+  /**
+   * The identifier of the exported entity.
+   */
+  original: string
+  units: XliffUnit[]
+}
+
+const NAMESPACES: Record<XliffVersion, string> = {
+  '1.2': 'urn:oasis:names:tc:xliff:document:1.2',
+  '2.0': 'urn:oasis:names:tc:xliff:document:2.0',
+}
+
+/**
+ * XLIFF 2.0 has no datatype attribute, so units containing markup are marked
+ * using a custom value of the type attribute.
+ */
+const MARKUP_TYPE_20 = 'blokkli:html'
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function getUnitId(unit: XliffUnit): string {
+  return `${unit.uuid}:${unit.fieldName}`
+}
+
+function buildUnit12(unit: XliffUnit): string {
+  const attributes = [
+    `id="${escapeXml(getUnitId(unit))}"`,
+    `resname="${escapeXml(unit.fieldName)}"`,
+    unit.isMarkup ? 'datatype="html"' : '',
+  ].filter(Boolean)
+  return [
+    `      <trans-unit ${attributes.join(' ')}>`,
+    `        <source>${escapeXml(unit.source)}</source>`,
+    unit.target !== undefined
+      ? `        <target>${escapeXml(unit.target)}</target>`
+      : '',
+    unit.note ? `        <note>${escapeXml(unit.note)}</note>` : '',
+    '      </trans-unit>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+function buildUnit20(unit: XliffUnit): string {
+  const attributes = [
+    `id="${escapeXml(getUnitId(unit))}"`,
+    `name="${escapeXml(unit.fieldName)}"`,
+    unit.isMarkup ? `type="${MARKUP_TYPE_20}"` : '',
+  ].filter(Boolean)
+  return [
+    `    <unit ${attributes.join(' ')}>`,
+    unit.note
+      ? `      <notes>\n        <note>${escapeXml(unit.note)}</note>\n      </notes>`
+      : '',
+    '      <segment>',
+    `        <source>${escapeXml(unit.source)}</source>`,
+    unit.target !== undefined
+      ? `        <target>${escapeXml(unit.target)}</target>`
+      : '',
+    '      </segment>',
+    '    </unit>',
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+/**
+ * Build the XLIFF file.
+ */
+export function buildXliff(doc: XliffDocument): string {
+  const header = '<?xml version="1.0" encoding="UTF-8"?>'
+  const source = escapeXml(doc.sourceLanguage)
+  const target = escapeXml(doc.targetLanguage)
+  const original = escapeXml(doc.original)
+
+  if (doc.version === '1.2') {
+    return [
+      header,
+      `<xliff version="1.2" xmlns="${NAMESPACES['1.2']}">`,
+      `  <file original="${original}" source-language="${source}" target-language="${target}" datatype="plaintext">`,
+      '    <body>',
+      ...doc.units.map(buildUnit12),
+      '    </body>',
+      '  </file>',
+      '</xliff>',
+      '',
+    ].join('\n')
+  }
+
+  return [
+    header,
+    `<xliff version="2.0" xmlns="${NAMESPACES['2.0']}" srcLang="${source}" trgLang="${target}">`,
+    `  <file id="f1" original="${original}">`,
+    ...doc.units.map(buildUnit20),
+    '  </file>',
+    '</xliff>',
+    '',
+  ].join('\n')
+}
+
+function parseUnitId(id: string): { uuid: string; fieldName: string } | null {
+  const index = id.indexOf(':')
+  if (index < 1 || index === id.length - 1) {
+    return null
+  }
+  return { uuid: id.slice(0, index), fieldName: id.slice(index + 1) }
+}
+
+function getChildren(parent: Element, name: string): Element[] {
+  return [...parent.children].filter((el) => el.localName === name)
+}
+
+function getText(parent: Element, name: string): string | undefined {
+  const el = getChildren(parent, name)[0]
+  if (!el) {
+    return
+  }
+
+  // Inline elements such as <g> or <ph> can't be converted back to the
+  // original markup, which is exported as escaped text.
+  if (el.children.length) {
+    const unit = parent.closest('trans-unit, unit')
+    throw new Error(
+      `The unit "${unit?.getAttribute('id')}" contains inline elements, which are not supported.`,
+    )
+  }
+  return el.textContent || ''
+}
+
+/**
+ * Parse an XLIFF 1.2 or 2.0 file.
+ *
+ * Throws an error if the file is not a valid XLIFF file.
+ */
+export function parseXliff(xml: string): XliffDocument {
+  const dom = new DOMParser().parseFromString(xml, 'application/xml')
+  // Instead of throwing an error, the parser returns a document containing a
+  // parsererror element, e.g. if the file was truncated.
+  if (dom.getElementsByTagName('parsererror').length) {
+    throw new Error('The file is not well-formed XML.')
+  }
+  const root = dom.documentElement
+  if (!root || root.localName !== 'xliff') {
+    throw new Error('The file is not a valid XLIFF file.')
+  }
+
+  const version = root.getAttribute('version')
+  if (version !== '1.2' && version !== '2.0') {
+    throw new Error(`Unsupported XLIFF version: ${version}`)
+  }
+
+  const file = getChildren(root, 'file')[0]
+  if (!file) {
+    throw new Error('The XLIFF file does not contain a file element.')
+  }
+
+  const units: XliffUnit[] = []
+
+  if (version === '1.2') {
+    for (const el of file.getElementsByTagName('trans-unit')) {
+      const id = parseUnitId(el.getAttribute('id') || '')
+      if (id) {
+        units.push({
+          ...id,
+          source: getText(el, 'source') || '',
+          target: getText(el, 'target'),
+          isMarkup: el.getAttribute('datatype') === 'html',
+        })
+      }
+    }
+    return {
+      version,
+      sourceLanguage: file.getAttribute('source-language') || '',
+      targetLanguage: file.getAttribute('target-language') || '',
+      original: file.getAttribute('original') || '',
+      units,
+    }
+  }
+
+  for (const el of file.getElementsByTagName('unit')) {
+    const id = parseUnitId(el.getAttribute('id') || '')
+    if (id) {
+      // A unit may be split into multiple segments.
+      const segments = getChildren(el, 'segment')
+      const targets = segments.map((segment) => getText(segment, 'target'))
+      units.push({
+        ...id,
+        source: segments.map((v) => getText(v, 'source') || '').join(''),
+        target: targets.every((v) => v === undefined)
+          ? undefined
+          : targets.join(''),
+        isMarkup: el.getAttribute('type') === MARKUP_TYPE_20,
+      })
+    }
+  }
+
+  return {
+    version,
+    sourceLanguage: root.getAttribute('srcLang') || '',
+    targetLanguage: root.getAttribute('trgLang') || '',
+    original: file.getAttribute('original') || '',
+    units,
+  }
+}
@@ -50,6 +50,72 @@ type DefinitionOptionCheckboxes = {
   group?: string
 }
 
+type DefinitionOptionTextarea = {
+  type: 'textarea'
+  default: string
+  label: string
+  group?: string
+}
+
+type DefinitionOptionSelect = {
+  type: 'select'
+  label: string
+  default: string
+  options: Record<string, string>
+  /**
+   * Show an input to filter the options.
+   *
+   * Defaults to true if there are more than 10 options.
+   */
+  searchable?: boolean
+  group?: string
+}
+
+/**
+ * The runtime value of an option of type "link".
+ */
+export type BlockOptionLinkValue = {
+  url: string
+  label: string
+}
+
+type DefinitionOptionLink = {
+  type: 'link'
+  label: string
+  default: BlockOptionLinkValue
+  group?: string
+}
+
+type DefinitionOptionMedia = {
+  /**
+   * The value is the ID of the selected media, as returned by the
+   * mediaLibraryGetResults adapter method.
+   */
+  type: 'media'
+  label: string
+  default: string
+  group?: string
+}
+
+type DefinitionOptionDate = {
+  /**
+   * The value is stored in the format YYYY-MM-DD for "date" and
+   * YYYY-MM-DDTHH:mm for "datetime".
+   */
+  type: 'date' | 'datetime'
+  label: string
+  default: string
+  /**
+   * The earliest date that can be selected, in the same format as the value.
+   */
+  min?: string
+  /**
+   * The latest date that can be selected, in the same format as the value.
+   */
+  max?: string
+  group?: string
+}
+
 type DefinitionOptionRadiosGridOption = {
   columns: number[]
   label: string
@@ -98,7 +164,41 @@ type DefinitionOptionRadios = {
   | DefinitionOptionRadiosIcons
 )
 
-export type BlockOptionDefinition =
+/**
+ * A condition based on the values of other options of the same block.
+ *
+ * The keys are the names of the options. The condition is met if every option
+ * has the given value. If an array is given, the option must have one of the
+ * values. For options of type "checkboxes" it's enough if one of the values
+ * is checked.
+ *
+ * @example
+ * { layout: 'grid' }
+ * { layout: ['grid', 'masonry'], showTitle: true }
+ */
+export type BlockOptionCondition = Record<
+  string,
+  string | number | boolean | Array<string | number>
+>
+
+type DefinitionOptionConditions = {
+  /**
+   * Only show the option if the condition is met.
+   */
+  visibleIf?: BlockOptionCondition
+
+  /**
+   * Disable the option if the condition is met.
+   */
+  disabledIf?: BlockOptionCondition
+
+  /**
+   * Allow a different value for every breakpoint.
+   */
+  responsive?: boolean
+}
+
+export type BlockOptionDefinition = (
   | DefinitionOptionColor
   | DefinitionOptionCheckbox
   | DefinitionOptionCheckboxes
@@ -106,3 +206,10 @@ export type BlockOptionDefinition =
   | DefinitionOptionText
   | DefinitionOptionRange
   | DefinitionOptionNumber
+  | DefinitionOptionTextarea
+  | DefinitionOptionSelect
+  | DefinitionOptionLink
+  | DefinitionOptionMedia
+  | DefinitionOptionDate
+) &
+  DefinitionOptionConditions
@@ -10,7 +10,10 @@ import type { AnimationProvider } from '../helpers/animationProvider'
 import type { StateProvider } from '../helpers/stateProvider'
 import type { TextProvider } from '../helpers/textProvider'
 import type { eventBus } from './../helpers/eventBus'
-import type { BlockOptionDefinition } from './blokkOptions'
+import type {
+  BlockOptionDefinition,
+  BlockOptionLinkValue,
+} from './blokkOptions'
 import type {
   BlokkliAdapter,
   AdapterContext,
@@ -53,7 +56,9 @@ type GetType<T> = T extends { options: infer O }
       ? number
       : T extends { type: 'number' }
         ? number
-        : string
+        : T extends { type: 'link' }
+          ? BlockOptionLinkValue
+          : string
 
 export type BlockDefinitionOptionsInput = {
   [key: string]: BlockOptionDefinition
@@ -63,6 +68,14 @@ type WithOptions<T extends BlockDefinitionOptionsInput> = {
   [K in keyof T]: GetType<T[K]>
 }
 
+type ResponsiveOptionKeys<T extends BlockDefinitionOptionsInput> = {
+  [K in keyof T]: T[K] extends { responsive: true } ? K : never
+}[keyof T]
+
+type WithResponsiveOptions<T extends BlockDefinitionOptionsInput> = {
+  [K in ResponsiveOptionKeys<T>]: Partial<Record<string, GetType<T[K]>>>
+}
+
 type GlobalOptionsType = typeof globalOptions
 
 type GlobalOptionsKeyTypes<T extends ValidGlobalConfigKeys> = {
@@ -118,6 +131,17 @@ export type DefineBlokkliContext<
     (T extends BlockDefinitionOptionsInput ? WithOptions<T> : object) &
       (G extends ValidGlobalConfigKeys ? GlobalOptionsKeyTypes<G> : object)
   >
+
+  /**
+   * The values of responsive options for every breakpoint, keyed by
+   * breakpoint ID.
+   *
+   * Only breakpoints that explicitly define a value are included. The
+   * resolved value for the current breakpoint is available in `options`.
+   */
+  responsiveOptions: ComputedRef<
+    T extends BlockDefinitionOptionsInput ? WithResponsiveOptions<T> : object
+  >
 }
 
 type DetermineVisibleOptionsContext<
@@ -131,6 +155,57 @@ type DetermineVisibleOptionsContext<
   entity: AdapterContext
 }
 
+export type BlokkliDefinitionValidateContext<
+  T extends BlockDefinitionOptionsInput = BlockDefinitionOptionsInput,
+  G extends GlobalOptionsKey[] | undefined = undefined,
+> = DetermineVisibleOptionsContext<T, G> & {
+  /**
+   * The UUID of the block.
+   */
+  uuid: string
+
+  /**
+   * The index of the block in its field.
+   */
+  index: number
+
+  /**
+   * All blocks in the same field, including the block itself.
+   */
+  siblings: FieldListItem[]
+
+  /**
+   * All blocks in the nested fields of the block.
+   */
+  children: FieldListItem[]
+}
+
+export type BlokkliDefinitionValidationRules<
+  T extends BlockDefinitionOptionsInput = BlockDefinitionOptionsInput,
+  G extends GlobalOptionsKey[] | undefined = undefined,
+> = {
+  /**
+   * Options that must have a non-empty value.
+   */
+  requiredOptions?: Array<CombineKeysAndGlobalOptions<T, G>>
+
+  /**
+   * The maximum number of blocks of this bundle in the same field.
+   */
+  maxSiblings?: number
+
+  /**
+   * Bundles of which at least one block must exist in the nested fields of
+   * this block.
+   */
+  requiredChildBundles?: string[]
+
+  /**
+   * The required position of the block in its field.
+   */
+  position?: 'first' | 'last'
+}
+
 type ExtractGlobalOptions<G extends GlobalOptionsKey[]> =
   G[number] extends GlobalOptionsKey ? G[number] : never
 
@@ -158,6 +233,24 @@ export type BlokkliDefinitionInputEditor<
     ctx: DetermineVisibleOptionsContext<Options, GlobalOptions>,
   ) => Array<CombineKeysAndGlobalOptions<Options, GlobalOptions>>
 
+  /**
+   * Declarative validation rules for blocks of this bundle.
+   *
+   * The rules are checked in the editor whenever the state is reloaded. Any
+   * violations are displayed together with the validations from the backend.
+   */
+  validationRules?: BlokkliDefinitionValidationRules<Options, GlobalOptions>
+
+  /**
+   * Validate a block in the editor.
+   *
+   * The method is called whenever the state is reloaded and should return
+   * one or more error messages if the block is invalid.
+   */
+  validate?: (
+    ctx: BlokkliDefinitionValidateContext<Options, GlobalOptions>,
+  ) => string | string[] | undefined | null
+
   /**
    * Disable editing for blocks that don't have any editable fields.
    *
@@ -365,6 +458,203 @@ export type EntityContext = {
   bundle: string
 }
 
+export type ResponsivePreviewResizeEvent = {
+  /**
+   * The width of the previewed viewport in pixels.
+   */
+  width: number
+}
+
+export type ResponsivePreviewShowBreakpointEvent = {
+  /**
+   * The ID of the breakpoint to preview.
+   */
+  breakpoint: string
+}
+
+export type BlokkliBreakpoint = {
+  /**
+   * The ID of the breakpoint, used as the key when storing responsive option
+   * values.
+   */
+  id: string
+
+  /**
+   * The label displayed in the editor.
+   */
+  label: string
+
+  /**
+   * The minimum viewport width in pixels from which the breakpoint applies.
+   */
+  minWidth: number
+}
+
+export type MarkdownElement =
+  | 'heading'
+  | 'paragraph'
+  | 'list'
+  | 'blockquote'
+  | 'code'
+  | 'image'
+
+/**
+ * Maps a Markdown element to a block bundle.
+ */
+export type MarkdownBundleMapping = {
+  /**
+   * The Markdown element.
+   */
+  element: MarkdownElement
+
+  /**
+   * The bundle of the block.
+   */
+  bundle: string
+
+  /**
+   * The name of the prop that contains the content of the block.
+   *
+   * For headings and code this is plain text, for images the URL and for all
+   * other elements HTML markup.
+   */
+  prop: string
+
+  /**
+   * Only for headings: The heading level this mapping applies to. If not set
+   * the mapping applies to all levels.
+   */
+  level?: number
+}
+
+export type MediaFocalPoint = {
+  /**
+   * The horizontal position, as a number between 0 and 1.
+   */
+  x: number
+
+  /**
+   * The vertical position, as a number between 0 and 1.
+   */
+  y: number
+}
+
+/**
+ * A crop of an image. All values are relative to the size of the original
+ * image and between 0 and 1.
+ */
+export type MediaCropRect = {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type MediaCropAspectRatio = {
+  /**
+   * The ID of the aspect ratio, used as the key of the crop.
+   */
+  id: string
+
+  /**
+   * The label displayed in the editor.
+   */
+  label: string
+
+  /**
+   * The aspect ratio (width divided by height), e.g. 16 / 9.
+   */
+  ratio: number
+}
+
+/**
+ * The focal point and crops of a media on a droppable field.
+ */
+export type MediaCrop = {
+  /**
+   * The URL of the original, uncropped image.
+   */
+  imageUrl: string
+
+  /**
+   * The current focal point.
+   */
+  focalPoint: MediaFocalPoint
+
+  /**
+   * The aspect ratios for which a crop can be defined.
+   */
+  aspectRatios: MediaCropAspectRatio[]
+
+  /**
+   * The current crops, keyed by aspect ratio ID.
+   */
+  crops: Record<string, MediaCropRect>
+}
+
+export type MediaMetadataValues = {
+  /**
+   * The alternative text of the media.
+   */
+  alt: string
+
+  /**
+   * The caption of the media.
+   */
+  caption: string
+
+  /**
+   * The credit or copyright notice of the media.
+   */
+  credit: string
+}
+
+export type MediaMetadataItem = MediaMetadataValues & {
+  /**
+   * The ID of the media.
+   */
+  mediaId: string
+
+  /**
+   * The label of the media, e.g. the file name.
+   */
+  label: string
+
+  /**
+   * A thumbnail URL of the media.
+   */
+  thumbnail?: string
+
+  /**
+   * Whether the media requires an alt text, e.g. images.
+   */
+  requiresAlt: boolean
+
+  /**
+   * The UUIDs of the blocks on the page rendering the media.
+   */
+  uuids: string[]
+}
+
+export type MediaMetadataUpdate = MediaMetadataValues & {
+  /**
+   * The ID of the media.
+   */
+  mediaId: string
+}
+
+export type PublishSchedule = {
+  /**
+   * When the changes should be published, as seconds since UNIX epoch.
+   */
+  publishOn: number | null
+
+  /**
+   * When the entity should be unpublished, as seconds since UNIX epoch.
+   */
+  unpublishOn: number | null
+}
+
 export type EditEntity = {
   label?: string
   status?: boolean
@@ -391,6 +681,49 @@ export interface TranslationState {
   translations?: EntityTranslation[]
 }
 
+export type TranslationFieldStatus = 'translated' | 'outdated' | 'missing'
+
+export type TranslationSourceField = {
+  /**
+   * The UUID of the block.
+   */
+  uuid: string
+
+  /**
+   * The name of the editable field.
+   */
+  fieldName: string
+
+  /**
+   * The value of the field in the source language.
+   */
+  value: string
+
+  /**
+   * The translation status of the field. If not provided, fields with an
+   * empty value are considered missing.
+   */
+  status?: TranslationFieldStatus
+}
+
+export type BlockTranslationMetadata = {
+  /**
+   * The UUID of the block.
+   */
+  uuid: string
+
+  /**
+   * The langcode of the translation.
+   */
+  langcode: string
+
+  /**
+   * The translation status of the block. A block is outdated if its source
+   * has changed after being translated.
+   */
+  status: TranslationFieldStatus
+}
+
 export interface ConversionItem {
   sourceBundle: string
   targetBundle: string
@@ -440,13 +773,94 @@ export interface ImportItem {
   label: string
 }
 
-export type CommentItem = {
+export type CommentUser = {
+  label: string
+  id?: string
+}
+
+export type CommentReply = {
   uuid: string
-  blockUuids: string[]
-  resolved: boolean
   body: string
   created: string | number
-  user: { label: string }
+  user: CommentUser
+
+  /**
+   * Whether the comment was written by the current user. Only these comments
+   * can be edited or deleted.
+   */
+  isOwnComment?: boolean
+
+  /**
+   * The timestamp of when the comment was last edited.
+   */
+  changed?: string | number
+
+  /**
+   * The users mentioned in the comment.
+   *
+   * Required to keep the mentions when the comment is edited.
+   */
+  mentions?: CommentMentionUser[]
+}
+
+export type CommentItem = CommentReply & {
+  blockUuids: string[]
+  resolved: boolean
+
+  /**
+   * The replies to this comment, sorted by creation date.
+   */
+  replies?: CommentReply[]
+}
+
+export type CommentMentionUser = {
+  /**
+   * The ID of the user, passed to the adapter when the user is mentioned.
+   */
+  id: string
+
+  /**
+   * The name of the user, inserted after the @ when mentioning the user.
+   */
+  label: string
+}
+
+export type CollaborationUser = {
+  /**
+   * The unique ID of the user.
+   */
+  id: string
+
+  /**
+   * The name of the user displayed to other editors.
+   */
+  label: string
+
+  /**
+   * The color used to highlight the cursor and selection of the user.
+   *
+   * If not provided, a color is derived from the ID of the user.
+   */
+  color?: string
+}
+
+export type CollaborationPresenceUpdate = {
+  /**
+   * The UUIDs of the currently selected blocks.
+   */
+  selectedUuids: string[]
+
+  /**
+   * The position of the cursor, relative to the artboard.
+   */
+  cursor?: Coord | null
+}
+
+export type CollaborationPresence = CollaborationPresenceUpdate & {
+  /**
+   * The user this presence belongs to.
+   */
+  user: CollaborationUser
 }
 
 export interface MutationItem {
@@ -581,11 +995,114 @@ export interface ClipboardItemFile {
   fileType: string
 }
 
+export interface ClipboardItemHeading {
+  type: 'heading'
+  id: string
+  itemBundle: string
+  data: string
+  additional?: string
+  level: number
+}
+
+export interface ClipboardItemList {
+  type: 'list'
+  id: string
+  itemBundle: string
+  data: string
+  additional?: string
+  ordered: boolean
+}
+
+export interface ClipboardItemTable {
+  type: 'table'
+  id: string
+  itemBundle: string
+  data: string
+  additional?: string
+}
+
+export interface ClipboardItemImageUrl {
+  type: 'imageUrl'
+  id: string
+  itemBundle: string
+  data: string
+  additional: string
+}
+
+/**
+ * A block copied to the clipboard, including its nested blocks.
+ */
+export type ClipboardBlock = {
+  /**
+   * The UUID of the block at the time it was copied.
+   */
+  uuid: string
+
+  /**
+   * The block bundle.
+   */
+  bundle: string
+
+  /**
+   * The raw option values.
+   */
+  options: Record<string, string>
+
+  /**
+   * The props of the block.
+   */
+  props: Record<string, any>
+
+  /**
+   * The nested blocks, keyed by field name.
+   */
+  fields: Record<string, ClipboardBlock[]>
+}
+
+/**
+ * The payload written to the system clipboard when copying blocks.
+ *
+ * The version is increased whenever the structure changes in a way that
+ * older payloads can't be pasted anymore.
+ */
+export type ClipboardBlocksPayload = {
+  type: 'blokkli:blocks'
+  version: number
+
+  /**
+   * The entity from which the blocks were copied.
+   */
+  entity: {
+    type: string
+    uuid: string
+    bundle: string
+  }
+
+  /**
+   * The copied blocks.
+   */
+  blocks: ClipboardBlock[]
+}
+
+export interface ClipboardItemBlocks {
+  type: 'blocks'
+  id: string
+  itemBundle: string
+  data: string
+  additional?: string
+  payload: ClipboardBlocksPayload
+}
+
 export type ClipboardItem =
   | ClipboardItemText
   | ClipboardItemVideo
   | ClipboardItemImage
   | ClipboardItemFile
+  | ClipboardItemBlocks
+  | ClipboardItemHeading
+  | ClipboardItemList
+  | ClipboardItemTable
+  | ClipboardItemImageUrl
 
 export interface DraggableHostData {
   type: string
@@ -1039,6 +1556,11 @@ export type EventbusEvents = {
 
   'state:reloaded': undefined
 
+  /**
+   * Emitted after a mutation of the current user has been applied.
+   */
+  'state:mutated': MappedState
+
   addContentSearchItem: AddContentSearchItemEvent
   'option:update': UpdateBlockOptionEvent
 
@@ -1076,6 +1598,16 @@ export type EventbusEvents = {
    * Edit a library item.
    */
   'library:edit-item': LibraryEditItemEvent
+
+  /**
+   * Emitted when the viewport of the responsive preview is resized.
+   */
+  'responsivePreview:resize': ResponsivePreviewResizeEvent
+
+  /**
+   * Resize the responsive preview to a viewport of the given breakpoint.
+   */
+  'responsivePreview:showBreakpoint': ResponsivePreviewShowBreakpointEvent
 }
 
 export type Eventbus = Emitter<EventbusEvents>
@@ -1124,6 +1656,15 @@ export type PasteExistingBlocksEvent = {
   preceedingUuid?: string
 }
 
+export type PasteClipboardBlocksEvent = {
+  /**
+   * The payload containing the blocks to recreate.
+   */
+  payload: ClipboardBlocksPayload
+  host: DraggableHostData
+  preceedingUuid?: string
+}
+
 export type NativeBlokkliEditableBlurEvent = CustomEvent<{
   field: string
   text: string
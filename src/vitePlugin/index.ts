@@ -7,6 +7,10 @@ import type {
   BlockDefinitionInput,
   BlockDefinitionOptionsInput,
 } from '../runtime/types'
+import type {
+  BlockOptionCondition,
+  BlockOptionLinkValue,
+} from '../runtime/types/blokkOptions'
 
 /**
  * Type check for falsy values.
@@ -24,8 +28,11 @@ type RuntimeDefinitionInput = {
   bundle: string
   options?: {
     [key: string]: {
-      default: string | string[] | boolean | number
+      default: string | string[] | boolean | number | BlockOptionLinkValue
       type: string
+      visibleIf?: BlockOptionCondition
+      disabledIf?: BlockOptionCondition
+      responsive?: boolean
     }
   }
   globalOptions?: string[]
@@ -67,8 +74,8 @@ function estreeToObject(
 /**
  * Build the runtime type definition from the full definition.
  *
- * During runtime, only the option default values and the array of globel
- * options are needed.
+ * During runtime, only the option default values, the option conditions and
+ * the array of globel options are needed.
  */
 function buildRuntimeDefinition(
   definition: BlockDefinitionInput<BlockDefinitionOptionsInput, []>,
@@ -85,6 +92,17 @@ function buildRuntimeDefinition(
           type: optionDefinition.type,
           default: optionDefinition.default,
         }
+        if (optionDefinition.visibleIf) {
+          runtimeDefinition.options![optionKey].visibleIf =
+            optionDefinition.visibleIf
+        }
+        if (optionDefinition.disabledIf) {
+          runtimeDefinition.options![optionKey].disabledIf =
+            optionDefinition.disabledIf
+        }
+        if (optionDefinition.responsive) {
+          runtimeDefinition.options![optionKey].responsive = true
+        }
       },
     )
   }